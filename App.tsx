@@ -1,15 +1,28 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import ChatInterface from './components/ChatInterface';
 import AgentStatusVisualizer from './components/AgentStatus';
 import ItineraryView, { ModificationType } from './components/ItineraryView';
 import ConfidenceCheck from './components/ConfidenceCheck';
 import DebugPanel from './components/DebugPanel';
 import UserProfileModal from './components/UserProfileModal';
-import { AgentStatus, ChatMessage, Itinerary, TripIntent, DiscoveryResult, UserProfile } from './types';
-import { parseIntentAgent, discoveryAgent, optimizationAgent, refineItineraryAgent } from './services/gemini';
-import { saveTrip, getUserProfile, saveUserProfile } from './services/firestore_mock';
+import AuthModal from './components/AuthModal';
+import TripHistoryPanel from './components/TripHistoryPanel';
+import MyTripsPanel from './components/MyTripsPanel';
+import SharePanel from './components/SharePanel';
+import { AgentStatus, ChatMessage, Itinerary, TripIntent, DiscoveryResult, UserProfile, Trip, TripFeedback, FeedbackTarget, EditHistory } from './types';
+import { parseIntentAgent, discoveryAgent, optimizationAgent, refineItineraryAgent, routeChatMessageAgent, answerPlanQuestionAgent, isCancelledError } from './services/gemini';
+import { saveTrip, getTrip, deleteTrip, listTrips, getUserProfile, saveUserProfile, getTripFeedback, addTripComment, voteOnTrip, deleteTripComment } from './services/firestore_mock';
+import { lowestVotedPlaces, describeFeedback } from './services/feedback';
+import { recordEdit, recordReplan, undoEdit, redoEdit } from './services/editHistory';
+import { applyStopEdit, StopEdit } from './services/stopEditor';
+import { checkBudget, fitToBudget } from './services/budget';
+import { logout } from './services/auth';
 import { pluginRegistry } from './services/plugins/registry';
 import { PluginStage } from './services/plugins/types';
+import { getTripLegs, isMultiCity, describeLegs } from './services/legs';
+
+// Quiet period after the last local edit before it is saved as a trip version
+const LOCAL_EDIT_SAVE_DELAY_MS = 2000;
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<AgentStatus>(AgentStatus.IDLE);
@@ -19,6 +32,7 @@ const App: React.FC = () => {
   // User Profile State
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [isProfileOpen, setIsProfileOpen] = useState(false);
+  const [isSessionChecked, setIsSessionChecked] = useState(false);
 
   // Workflow State Data
   const [intent, setIntent] = useState<TripIntent | null>(null);
@@ -26,29 +40,88 @@ const App: React.FC = () => {
   
   const [isConfirmed, setIsConfirmed] = useState(false);
   const [isModifying, setIsModifying] = useState(false);
-
-  // Initial Load (Profile & Greeting)
+  const [isRouting, setIsRouting] = useState(false); // Deciding what a follow-up chat message asks for, or answering it
+  const [selectedPlanId, setSelectedPlanId] = useState<string | null>(null); // Variant shown in ItineraryView
+
+  const isWorking = [AgentStatus.PARSING_INTENT, AgentStatus.DISCOVERY, AgentStatus.OPTIMIZING, AgentStatus.RENDERING].includes(status);
+  const canCancel = isRouting || isModifying || [AgentStatus.PARSING_INTENT, AgentStatus.DISCOVERY, AgentStatus.OPTIMIZING].includes(status);
+
+  // Aborts the agent call in flight when the user presses Cancel. Each step starts its own run.
+  const runRef = useRef<AbortController | null>(null);
+
+  // Latest saved version of the current trip (null until it is first saved).
+  // The ref lets a running workflow see saves made earlier in the same run.
+  const [savedTrip, setSavedTrip] = useState<Trip | null>(null);
+  const savedTripRef = useRef<Trip | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isMyTripsOpen, setIsMyTripsOpen] = useState(false);
+  const [sharePlanId, setSharePlanId] = useState<string | null>(null); // Set while the share panel is open
+  const [feedback, setFeedback] = useState<TripFeedback | null>(null); // Votes and comments on the saved trip
+
+  // Undo/redo stacks per plan, saved with each trip version
+  const [editHistory, setEditHistory] = useState<EditHistory>({});
+  const editHistoryRef = useRef<EditHistory>({});
+  // Save of a burst of local edits (manual moves, undo/redo, fit to budget) waiting for the burst to end
+  const pendingEditSaveRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Initial Load (Signed-in Profile & Greeting)
   useEffect(() => {
     const initApp = async () => {
-        // Load default guest profile
-        const profile = await getUserProfile('user_guest');
-        setUserProfile(profile);
-
-        setMessages([
-            {
-                id: 'welcome',
-                role: 'assistant',
-                content: `Hi ${profile?.name.split(' ')[0] || 'there'}! I'm VibeTrip. I can plan your entire journey based on your preferences. Where are you dreaming of going?`,
-                timestamp: Date.now()
-            }
-        ]);
+        const profile = await getUserProfile();
+        if (profile) await startSession(profile);
+        setIsSessionChecked(true);
     };
     initApp();
   }, []);
 
+  // Feedback belongs to the trip, not a version, so it is reloaded only when another trip is opened
+  useEffect(() => {
+    setFeedback(null);
+    if (!savedTrip?.id) return;
+    getTripFeedback({ tripId: savedTrip.id })
+      .then(setFeedback)
+      .catch(error => console.error('[App] Failed to load feedback', error));
+  }, [savedTrip?.id]);
+
+  const startSession = async (profile: UserProfile) => {
+    setUserProfile(profile);
+    setMessages([
+        {
+            id: 'welcome',
+            role: 'assistant',
+            content: `Hi ${profile.name.split(' ')[0] || 'there'}! I'm VibeTrip. I can plan your entire journey based on your preferences. Where are you dreaming of going?`,
+            timestamp: Date.now()
+        }
+    ]);
+
+    // Pick up where the last planning session left off
+    try {
+        const draft = (await listTrips()).find(t => t.status === 'draft');
+        const trip = draft && await getTrip(draft.id);
+        if (trip) {
+            loadTrip(trip, `Restored your unfinished ${trip.intent.destination} plan from ${new Date(trip.updatedAt).toLocaleString()}. Keep going, or discard the draft to start over.`);
+        }
+    } catch (error) {
+        console.error('[App] Failed to restore draft', error);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await logout();
+    setIsProfileOpen(false);
+    setUserProfile(null);
+    rememberTrip(null);
+    rememberHistory({});
+    setIntent(null);
+    setDiscoveryResult(null);
+    setItineraries(null);
+    setIsConfirmed(false);
+    setStatus(AgentStatus.IDLE);
+    setMessages([]);
+  };
+
   const handleSaveProfile = async (updatedProfile: UserProfile) => {
-      await saveUserProfile(updatedProfile);
-      setUserProfile(updatedProfile);
+      setUserProfile(await saveUserProfile(updatedProfile));
       setMessages(prev => [...prev, {
           id: Date.now().toString(),
           role: 'system',
@@ -79,6 +152,34 @@ const App: React.FC = () => {
     // 1. User Message
     const userMsg: ChatMessage = { id: Date.now().toString(), role: 'user', content: text, timestamp: Date.now() };
     setMessages(prev => [...prev, userMsg]);
+
+    // Once plans are shown, a message may be about them rather than a new trip
+    let routedNewTrip = false;
+    if (status === AgentStatus.COMPLETE && itineraries && intent) {
+      const selected = itineraries.find(it => it.id === selectedPlanId) || itineraries[0];
+      const recentHistory = messages.slice(-6).map(m => `${m.role}: ${m.content}`).join('\n');
+      setIsRouting(true);
+      let routed;
+      try {
+        routed = await routeChatMessageAgent(text, recentHistory, selected, intent, startRun());
+      } catch (error) {
+        // Routing only fails when cancelled; it falls back to a new trip otherwise
+        handleCancelled();
+        return;
+      } finally {
+        setIsRouting(false);
+      }
+
+      if (routed.route === 'refine') {
+        await handleModifyItinerary('INSTRUCTION', { itineraryId: selected.id, instruction: routed.instruction });
+        return;
+      }
+      if (routed.route === 'question') {
+        await answerQuestion(text, recentHistory, selected);
+        return;
+      }
+      routedNewTrip = true;
+    }
     
     // 2. Start Workflow: Intent Parsing
     setStatus(AgentStatus.PARSING_INTENT);
@@ -87,8 +188,15 @@ const App: React.FC = () => {
       const history = messages.map(m => `${m.role}: ${m.content}`).join('\n') + `\nuser: ${text}`;
       
       // Pass user profile to agent to use as defaults
-      const parsedIntent = await parseIntentAgent(history, userProfile);
+      const parsedIntent = await parseIntentAgent(history, userProfile, startRun());
       setIntent(parsedIntent);
+      // A new intent starts the later stages over, and a different trip gets its own id
+      if (routedNewTrip || !isSameTrip(parsedIntent)) {
+        rememberTrip(null);
+        setIsConfirmed(false);
+      }
+      rememberHistory({});
+      await saveDraft({ intent: parsedIntent, discovery: null, optimizedPlans: [] });
 
       // --- PLUGIN HOOK: POST_INTENT ---
       const pluginResults = await pluginRegistry.runStage(PluginStage.POST_INTENT, { intent: parsedIntent });
@@ -122,8 +230,9 @@ const App: React.FC = () => {
     setMessages(prev => [...prev, confirmMsg]);
 
     try {
-        const result = await discoveryAgent(currentIntent);
+        const result = await discoveryAgent(currentIntent, startRun());
         setDiscoveryResult(result);
+        await saveDraft({ intent: currentIntent, discovery: result, optimizedPlans: [] });
 
         // --- PLUGIN HOOK: POST_DISCOVERY ---
         const pluginResults = await pluginRegistry.runStage(PluginStage.POST_DISCOVERY, { intent: currentIntent, discovery: result });
@@ -141,15 +250,25 @@ const App: React.FC = () => {
   };
 
   // --- Step 3: Optimization Logic ---
-  const proceedToOptimization = async (currentIntent: TripIntent, discovery: DiscoveryResult) => {
+  // Resolves with the final plans, or null if optimization failed
+  // `replacing`: plans a re-plan replaces; they stay reachable through undo
+  const proceedToOptimization = async (currentIntent: TripIntent, discovery: DiscoveryResult, replacing?: Itinerary[]): Promise<Itinerary[] | null> => {
+    const previous = itineraries;
     setStatus(AgentStatus.OPTIMIZING);
     try {
-        const result = await optimizationAgent(currentIntent, discovery);
+        const result = await optimizationAgent(currentIntent, discovery, {
+            signal: startRun(),
+            preferences: userProfile?.preferences,
+            // Render days as they stream in; the final result replaces them below
+            onPartial: (partial) => setItineraries(partial)
+        });
         
         setStatus(AgentStatus.RENDERING);
         await new Promise(r => setTimeout(r, 800)); // UI pacing
         
         setItineraries(result.itineraries);
+        rememberHistory(replacing ? recordReplan(editHistoryRef.current, replacing, result.itineraries) : {});
+        await saveDraft({ intent: currentIntent, discovery, optimizedPlans: result.itineraries });
 
         // --- PLUGIN HOOK: POST_OPTIMIZATION ---
         const pluginResults = await pluginRegistry.runStage(PluginStage.POST_OPTIMIZATION, { intent: currentIntent, discovery, itineraries: result.itineraries });
@@ -165,13 +284,214 @@ const App: React.FC = () => {
                 timestamp: Date.now()
              }]);
         }
+
+        // Plans over the traveler's stated limit are pointed out, with the way to fix them
+        const overBudget = result.itineraries
+            .map(plan => ({ plan, check: checkBudget(plan, currentIntent) }))
+            .filter(({ check }) => check && check.overBy > 0);
+        if (overBudget.length) {
+             const details = overBudget
+                .map(({ plan, check }) => `"${plan.title}" is ${plan.currency} ${check!.overBy.toLocaleString()} over your ${plan.currency} ${check!.limit.toLocaleString()} budget`)
+                .join('; ');
+             setMessages(prev => [...prev, {
+                id: Date.now().toString() + 'b',
+                role: 'assistant',
+                content: `Heads up: ${details}. Use "Fit to Budget" to swap the priciest stops for cheaper ones.`,
+                timestamp: Date.now()
+             }]);
+        }
         
         setStatus(AgentStatus.COMPLETE);
+        return result.itineraries;
     } catch (error: any) {
-        handleError(error);
+        if (isCancelledError(error)) {
+            // Drop the partly streamed plans and go back to the ones shown before
+            setItineraries(previous);
+            handleCancelled(previous ? AgentStatus.COMPLETE : AgentStatus.IDLE);
+        } else {
+            handleError(error);
+        }
+        return null;
+    }
+  };
+
+  // --- Trip Versioning ---
+  // Trip ids are global on the backend, so add randomness to the timestamp
+  const newTripId = () => `trip_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+  const cancelPendingEditSave = () => {
+    if (pendingEditSaveRef.current) clearTimeout(pendingEditSaveRef.current);
+    pendingEditSaveRef.current = null;
+  };
+
+  const rememberTrip = (trip: Trip | null) => {
+    // Edits waiting to be saved belong to the trip being replaced
+    if (trip?.id !== savedTripRef.current?.id) cancelPendingEditSave();
+    savedTripRef.current = trip;
+    setSavedTrip(trip);
+  };
+
+  const rememberHistory = (history: EditHistory) => {
+    editHistoryRef.current = history;
+    setEditHistory(history);
+  };
+
+  const isDraft = () => !savedTripRef.current || savedTripRef.current.status === 'draft';
+
+  // Re-planning and refining keep the saved trip's destination; a different one is a new trip
+  const isSavedTrip = (tripIntent: TripIntent) => {
+    const current = savedTripRef.current;
+    return !!current && current.intent.destination.trim().toLowerCase() === tripIntent.destination.trim().toLowerCase();
+  };
+
+  // A confirmed trip is never re-planned from the chat
+  const isSameTrip = (tripIntent: TripIntent) => isDraft() && isSavedTrip(tripIntent);
+
+  // Every change to the trip is stored as a new version; until it is confirmed, as a draft
+  const saveTripVersion = async (changes: { intent?: TripIntent; discovery?: DiscoveryResult | null; optimizedPlans?: Itinerary[] }) => {
+    // This version includes any local edits still waiting to be saved
+    cancelPendingEditSave();
+    const current = savedTripRef.current;
+    const tripIntent = changes.intent || current?.intent;
+    if (!tripIntent) return;
+    try {
+      const trip = await saveTrip({
+        id: current?.id || newTripId(),
+        status: current?.status || 'draft',
+        intent: tripIntent,
+        discovery: changes.discovery,
+        optimizedPlans: changes.optimizedPlans,
+        selectedPlanId: current?.selectedPlanId,
+        editHistory: editHistoryRef.current
+      });
+      rememberTrip(trip);
+    } catch (error) {
+      console.error('[App] Failed to save trip version', error);
+    }
+  };
+
+  // Local edits come in bursts (dragging stops around, undoing several steps), so they are saved
+  // as one version once the burst is over. Undoing and redoing back to the saved plans saves nothing.
+  const saveLocalEdit = (optimizedPlans: Itinerary[]) => {
+    cancelPendingEditSave();
+    pendingEditSaveRef.current = setTimeout(() => {
+      pendingEditSaveRef.current = null;
+      if (JSON.stringify(optimizedPlans) === JSON.stringify(savedTripRef.current?.optimizedPlans)) return;
+      saveTripVersion({ optimizedPlans });
+    }, LOCAL_EDIT_SAVE_DELAY_MS);
+  };
+
+  // Autosave after each planning stage so a reload doesn't lose the work. A confirmed trip
+  // being re-planned is only saved again when the user confirms the new plans.
+  const saveDraft = async (changes: { intent: TripIntent; discovery?: DiscoveryResult | null; optimizedPlans?: Itinerary[] }) => {
+    if (isDraft()) await saveTripVersion(changes);
+  };
+
+  // Workflow step a saved trip resumes at
+  const statusForTrip = (trip: Trip): AgentStatus => {
+    if (trip.optimizedPlans.length) return AgentStatus.COMPLETE;
+    if (trip.discovery) return AgentStatus.REVIEW_DISCOVERY;
+    return AgentStatus.REVIEW_INTENT;
+  };
+
+  // Replaces the workflow state with a saved trip so it can be refined further
+  const loadTrip = (trip: Trip, note: string) => {
+    rememberTrip(trip);
+    rememberHistory(trip.editHistory || {});
+    setIntent(trip.intent);
+    setDiscoveryResult(trip.discovery);
+    setItineraries(trip.optimizedPlans.length ? trip.optimizedPlans : null);
+    setIsConfirmed(trip.status !== 'draft');
+    setStatus(statusForTrip(trip));
+    setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        role: 'system',
+        content: note,
+        timestamp: Date.now()
+    }]);
+  };
+
+  const handleDiscardDraft = async () => {
+    const draft = savedTripRef.current;
+    if (!draft || draft.status !== 'draft') return;
+    try {
+      await deleteTrip(draft.id);
+    } catch (error) {
+      console.error('[App] Failed to discard draft', error);
+      return;
+    }
+    rememberTrip(null);
+    rememberHistory({});
+    setIntent(null);
+    setDiscoveryResult(null);
+    setItineraries(null);
+    setIsConfirmed(false);
+    setStatus(AgentStatus.IDLE);
+    setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        role: 'assistant',
+        content: "Draft discarded. Where would you like to go instead?",
+        timestamp: Date.now()
+    }]);
+  };
+
+  const handleTripRollback = (trip: Trip) => {
+    loadTrip(trip, `Restored an earlier version of your trip (saved as v${trip.version}).`);
+  };
+
+  const handleOpenTrip = (trip: Trip) => {
+    loadTrip(trip, `Reopened your ${trip.intent.destination} trip (v${trip.version}). Use the refine tools to keep adjusting it.`);
+  };
+
+  // Answers come from the Q&A agent and never change the plan
+  const answerQuestion = async (question: string, recentHistory: string, itinerary: Itinerary) => {
+    if (!intent) return;
+    setIsRouting(true);
+    let answer: string;
+    try {
+      answer = await answerPlanQuestionAgent(question, recentHistory, intent, itinerary, discoveryResult, startRun());
+    } catch (error) {
+      if (isCancelledError(error)) {
+        handleCancelled();
+        return;
+      }
+      console.error('[App] Failed to answer question', error);
+      answer = "I couldn't look that up right now. Please try asking again in a moment.";
+    } finally {
+      setIsRouting(false);
     }
+    setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        role: 'assistant',
+        content: answer,
+        timestamp: Date.now()
+    }]);
   };
 
+  // --- Group Feedback ---
+  const updateFeedback = async (change: (tripId: string) => Promise<TripFeedback>) => {
+    if (!savedTrip) return;
+    try {
+      setFeedback(await change(savedTrip.id));
+    } catch (error: any) {
+      setMessages(prev => [...prev, {
+          id: Date.now().toString(),
+          role: 'system',
+          content: `Could not save your feedback: ${error.message}`,
+          timestamp: Date.now()
+      }]);
+    }
+  };
+
+  const handleVote = (target: FeedbackTarget, value: 1 | -1 | 0) =>
+    updateFeedback(tripId => voteOnTrip({ tripId }, target, value));
+
+  const handleComment = (target: FeedbackTarget, text: string) =>
+    updateFeedback(tripId => addTripComment({ tripId }, target, text));
+
+  const handleDeleteComment = (commentId: string) =>
+    updateFeedback(tripId => deleteTripComment({ tripId }, commentId));
+
   // --- Itinerary Modification Logic ---
   const handleModifyItinerary = async (type: ModificationType, payload: any) => {
     if (!itineraries || !discoveryResult || !intent) return;
@@ -199,27 +519,85 @@ const App: React.FC = () => {
             timestamp: Date.now()
         }]);
 
-        await proceedToOptimization(updatedIntent, discoveryResult);
+        const plans = await proceedToOptimization(updatedIntent, discoveryResult, itineraries);
+        // Drafts were already autosaved by the optimization step
+        if (plans && !isDraft()) await saveTripVersion({ intent: updatedIntent, optimizedPlans: plans });
       
       } else {
         // Granular Change: Swap or Regen Day
         const targetItinerary = itineraries.find(it => it.id === payload.itineraryId);
         if (!targetItinerary) return;
 
+        // Fitting to the budget is a local swap, no agent call
+        if (type === 'FIT_BUDGET') {
+            const fit = fitToBudget(targetItinerary, intent, discoveryResult);
+            const check = checkBudget(fit?.itinerary || targetItinerary, intent);
+            if (fit) {
+                const updatedPlans = itineraries.map(it => it.id === payload.itineraryId ? fit.itinerary : it);
+                setItineraries(updatedPlans);
+                rememberHistory(recordEdit(editHistoryRef.current, targetItinerary, fit.itinerary));
+                saveLocalEdit(updatedPlans);
+            }
+            const summary = !fit
+                ? (check && check.overBy > 0 ? "I couldn't find cheaper alternatives for any stop in this plan." : "This plan already fits your budget.")
+                : check && check.overBy > 0
+                    ? `Swapped ${fit.swaps.join('; ')}. It is still ${fit.itinerary.currency} ${check.overBy.toLocaleString()} over budget; there were no cheaper alternatives left.`
+                    : `Swapped ${fit.swaps.join('; ')}. The plan now fits your budget at ${fit.itinerary.currency} ${fit.itinerary.totalEstimatedCost.toLocaleString()}. Use Undo if you preferred it before.`;
+            setMessages(prev => [...prev, {
+                id: Date.now().toString(),
+                role: 'assistant',
+                content: summary,
+                timestamp: Date.now()
+            }]);
+            return;
+        }
+
         let instruction = "";
-        if (type === 'SWAP') {
+        let groupFeedback: string | undefined;
+        if (type === 'DROP_LOWEST_VOTED') {
+            const lowest = feedback ? lowestVotedPlaces(feedback, targetItinerary) : [];
+            if (!lowest.length) {
+                setMessages(prev => [...prev, {
+                    id: Date.now().toString(),
+                    role: 'assistant',
+                    content: "Nobody has voted any activity in this plan down yet, so there is nothing to drop.",
+                    timestamp: Date.now()
+                }]);
+                return;
+            }
+            const stops = lowest.map(s => `'${s.place}' (Day ${s.day}, ${s.slot})`).join(', ');
+            instruction = `Drop the lowest voted activities: ${stops}. Replace each with a suitable alternative from the candidates that fits the group's feedback, and keep everything else as it is.`;
+            groupFeedback = describeFeedback(feedback!, targetItinerary);
+        } else if (type === 'INSTRUCTION') {
+            instruction = payload.instruction;
+        } else if (type === 'SWAP') {
             instruction = `Swap the activity '${payload.placeName}' on Day ${payload.day} (${payload.timeOfDay}) with a suitable alternative.`;
         } else if (type === 'REGEN_DAY') {
             instruction = `Completely regenerate Day ${payload.day} with different activities.`;
         }
 
-        const updatedItinerary = await refineItineraryAgent(targetItinerary, instruction, discoveryResult);
+        const updatedItinerary = await refineItineraryAgent(targetItinerary, instruction, discoveryResult, intent ?? undefined, groupFeedback, startRun());
         
         // Update state by replacing the old itinerary
-        setItineraries(prev => prev ? prev.map(it => it.id === payload.itineraryId ? updatedItinerary : it) : null);
+        const updatedPlans = itineraries.map(it => it.id === payload.itineraryId ? updatedItinerary : it);
+        setItineraries(updatedPlans);
+        rememberHistory(recordEdit(editHistoryRef.current, targetItinerary, updatedItinerary));
+        await saveTripVersion({ optimizedPlans: updatedPlans });
+        if (type === 'INSTRUCTION') {
+            setMessages(prev => [...prev, {
+                id: Date.now().toString(),
+                role: 'assistant',
+                content: `Updated "${updatedItinerary.title}": ${payload.instruction} Use Undo if you preferred it before.`,
+                timestamp: Date.now()
+            }]);
+        }
       }
 
     } catch (error: any) {
+        if (isCancelledError(error)) {
+            handleCancelled();
+            return;
+        }
         console.error(error);
         setMessages(prev => [...prev, {
             id: Date.now().toString(),
@@ -232,6 +610,32 @@ const App: React.FC = () => {
     }
   };
 
+  // Manual edits are applied locally (no agent call) and can be undone like any other change
+  const handleEditStops = (itineraryId: string, edit: StopEdit) => {
+    const current = itineraries?.find(it => it.id === itineraryId);
+    if (!itineraries || !current || !intent || isModifying || isWorking) return;
+    const updated = applyStopEdit(current, edit, intent, discoveryResult);
+    if (updated === current) return;
+
+    const updatedPlans = itineraries.map(it => it.id === itineraryId ? updated : it);
+    setItineraries(updatedPlans);
+    rememberHistory(recordEdit(editHistoryRef.current, current, updated));
+    saveLocalEdit(updatedPlans);
+  };
+
+  // Steps the plan back or forward through its edit history
+  const handleUndoRedo = (direction: 'undo' | 'redo', itineraryId: string) => {
+    const current = itineraries?.find(it => it.id === itineraryId);
+    if (!itineraries || !current || isModifying || isWorking) return;
+    const step = (direction === 'undo' ? undoEdit : redoEdit)(editHistoryRef.current, current);
+    if (!step) return;
+
+    const updatedPlans = itineraries.map(it => it.id === itineraryId ? step.itinerary : it);
+    setItineraries(updatedPlans);
+    rememberHistory(step.history);
+    saveLocalEdit(updatedPlans);
+  };
+
   // --- Workflow Handlers ---
 
   const handleIntentConfirm = () => {
@@ -254,7 +658,31 @@ const App: React.FC = () => {
     }]);
   };
 
+  const startRun = (): AbortSignal => {
+    runRef.current = new AbortController();
+    return runRef.current.signal;
+  };
+
+  const handleCancelRun = () => {
+    runRef.current?.abort();
+  };
+
+  // A cancelled run is not an error: confirm it stopped and leave the rest as it was
+  const handleCancelled = (nextStatus?: AgentStatus) => {
+    if (nextStatus) setStatus(nextStatus);
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: "Okay, I've stopped. Let me know what you'd like to do instead.",
+      timestamp: Date.now()
+    }]);
+  };
+
   const handleError = (error: any) => {
+    if (isCancelledError(error)) {
+      handleCancelled(AgentStatus.IDLE);
+      return;
+    }
     console.error(error);
     setStatus(AgentStatus.ERROR);
     let errorMessage = "I encountered a technical glitch. Please try again.";
@@ -277,19 +705,35 @@ const App: React.FC = () => {
 
   const handleConfirmTrip = async () => {
     if (!intent || !itineraries) return;
+    // The confirmed version includes any local edits still waiting to be saved
+    const hadPendingEdits = !!pendingEditSaveRef.current;
+    cancelPendingEditSave();
     
-    // Save the trip using the new versioned store
-    await saveTrip({
-      id: `trip_${Date.now()}`,
-      userId: userProfile?.id || 'user_guest',
-      status: 'confirmed',
-      intent: intent,
-      discovery: discoveryResult,
-      optimizedPlans: itineraries,
-      selectedPlanId: itineraries[0].id // Defaulting to first for now, assuming ItineraryView handles selection
-    });
-    
-    setIsConfirmed(true);
+    try {
+      // Save the trip using the new versioned store (a new version if this trip was saved before)
+      const trip = await saveTrip({
+        id: isSavedTrip(intent) ? savedTripRef.current!.id : newTripId(),
+        status: 'confirmed',
+        intent: intent,
+        discovery: discoveryResult,
+        optimizedPlans: itineraries,
+        selectedPlanId: (itineraries.find(it => it.id === selectedPlanId) || itineraries[0]).id,
+        editHistory: editHistoryRef.current
+      });
+
+      rememberTrip(trip);
+      setIsConfirmed(true);
+    } catch (error) {
+      console.error('[App] Failed to confirm trip', error);
+      // Nothing was saved, so the local edits still need their draft version
+      if (hadPendingEdits) saveLocalEdit(itineraries);
+      setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        role: 'assistant',
+        content: "I couldn't save your trip right now. Please try confirming again in a moment.",
+        timestamp: Date.now()
+      }]);
+    }
   };
 
   return (
@@ -307,6 +751,14 @@ const App: React.FC = () => {
                 <div className="w-2 h-2 rounded-full bg-green-500"></div>
                 Vertex AI Agent Active
               </div>
+              <button
+                onClick={() => setIsMyTripsOpen(true)}
+                disabled={!userProfile}
+                className="flex items-center gap-2 text-gray-600 hover:text-blue-600 transition-colors bg-gray-50 hover:bg-blue-50 px-3 py-1.5 rounded-lg disabled:opacity-50"
+              >
+                <i className="fa-solid fa-suitcase-rolling"></i>
+                <span className="text-sm font-medium hidden sm:block">My Trips</span>
+              </button>
               <button 
                 onClick={() => setIsProfileOpen(true)}
                 className="flex items-center gap-2 text-gray-600 hover:text-blue-600 transition-colors bg-gray-50 hover:bg-blue-50 px-3 py-1.5 rounded-lg"
@@ -329,11 +781,30 @@ const App: React.FC = () => {
           
           {/* Left Column: Chat & Status */}
           <div className="lg:col-span-4 flex flex-col gap-6">
-            <AgentStatusVisualizer status={status} />
+            <AgentStatusVisualizer status={status} onCancel={canCancel ? handleCancelRun : undefined} />
+
+            {savedTrip?.status === 'draft' && (
+              <div className="flex items-center justify-between gap-3 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-2 rounded-xl text-sm animate-fade-in">
+                <span>
+                  <i className="fa-solid fa-floppy-disk mr-2"></i>
+                  Draft autosaved {new Date(savedTrip.updatedAt).toLocaleTimeString()}
+                </span>
+                <button
+                  onClick={handleDiscardDraft}
+                  disabled={isWorking || isModifying}
+                  className="text-xs font-semibold text-amber-700 hover:text-red-600 transition-colors disabled:opacity-50"
+                >
+                  <i className="fa-solid fa-trash-can mr-1"></i>Discard
+                </button>
+              </div>
+            )}
             <ChatInterface 
               messages={messages} 
               onSendMessage={handleSendMessage} 
               status={status}
+              isBusy={isRouting || isModifying}
+              hasPlans={!!itineraries}
+              onCancel={canCancel ? handleCancelRun : undefined}
             />
             
             {/* Confidence Check Overlays for Steps */}
@@ -371,6 +842,15 @@ const App: React.FC = () => {
                      </span>
                      <span className="font-bold text-gray-800 text-right">{intent.destination}</span>
                    </div>
+                   {isMultiCity(intent) && (
+                     <div className="flex justify-between items-center bg-white/60 px-3 py-2 rounded-lg">
+                       <span className="text-gray-600 font-semibold flex items-center gap-2">
+                         <i className="fa-solid fa-route text-blue-600"></i>
+                         Route
+                       </span>
+                       <span className="font-bold text-gray-800 text-right">{describeLegs(getTripLegs(intent))}</span>
+                     </div>
+                   )}
                    <div className="flex justify-between items-center bg-white/60 px-3 py-2 rounded-lg">
                      <span className="text-gray-600 font-semibold flex items-center gap-2">
                        <i className="fa-solid fa-calendar-days text-blue-600"></i>
@@ -387,6 +867,35 @@ const App: React.FC = () => {
                        {intent.travelers.adults} Adults, {intent.travelers.children} Children
                      </span>
                    </div>
+                   {intent.budgetLimit && (
+                     <div className="flex justify-between items-center bg-white/60 px-3 py-2 rounded-lg">
+                       <span className="text-gray-600 font-semibold flex items-center gap-2">
+                         <i className="fa-solid fa-wallet text-blue-600"></i>
+                         Budget
+                       </span>
+                       <span className="font-bold text-gray-800">
+                         {intent.budgetLimit.currency} {intent.budgetLimit.amount.toLocaleString()} {intent.budgetLimit.per === 'person' ? 'per person' : 'total'}
+                       </span>
+                     </div>
+                   )}
+                   <div className="flex justify-between items-center bg-white/60 px-3 py-2 rounded-lg">
+                     <span className="text-gray-600 font-semibold flex items-center gap-2">
+                       <i className="fa-solid fa-coins text-blue-600"></i>
+                       Rates
+                     </span>
+                     <span className="font-bold text-gray-800 text-right">
+                       {Object.keys(intent.currencyRates)
+                         .map(code => intent.currencyRates[code])
+                         .map(c => `${c.code} ${c.rateSource === 'table' ? `as of ${c.rateAsOf}` : 'estimated'}`)
+                         .join(', ')}
+                     </span>
+                   </div>
+                   {intent.rateDeviations && intent.rateDeviations.length > 0 && (
+                     <div className="bg-amber-50 border border-amber-200 text-amber-800 px-3 py-2 rounded-lg text-xs">
+                       <i className="fa-solid fa-triangle-exclamation mr-1"></i>
+                       The estimated {intent.rateDeviations.map(d => `${d.code} rate (${d.modelRate} per USD) was ${Math.round(d.deviation * 100)}% off the table (${d.tableRate})`).join('; ')}. Using the table rate.
+                     </div>
+                   )}
                 </div>
               </div>
             )}
@@ -401,6 +910,26 @@ const App: React.FC = () => {
                 isConfirmed={isConfirmed}
                 onModify={handleModifyItinerary}
                 isModifying={isModifying}
+                isStreaming={status === AgentStatus.OPTIMIZING}
+                savedVersion={savedTrip?.version}
+                onShowHistory={savedTrip ? () => setIsHistoryOpen(true) : undefined}
+                onShare={savedTrip && !isWorking ? setSharePlanId : undefined}
+                editHistory={editHistory}
+                onUndo={(id) => handleUndoRedo('undo', id)}
+                onRedo={(id) => handleUndoRedo('redo', id)}
+                onEditStops={handleEditStops}
+                onSelect={setSelectedPlanId}
+                candidates={discoveryResult}
+                intent={intent}
+                homeCurrency={userProfile?.preferences.homeCurrency}
+                collaboration={savedTrip && feedback ? {
+                  feedback,
+                  currentUserId: userProfile?.id,
+                  tripOwnerId: savedTrip.userId,
+                  onVote: handleVote,
+                  onComment: handleComment,
+                  onDeleteComment: handleDeleteComment,
+                } : undefined}
               />
             ) : (
               <div className="h-full min-h-[500px] flex flex-col items-center justify-center bg-white rounded-2xl border border-dashed border-gray-300 text-gray-400">
@@ -425,6 +954,42 @@ const App: React.FC = () => {
             onClose={() => setIsProfileOpen(false)}
             profile={userProfile}
             onSave={handleSaveProfile}
+            onSignOut={handleSignOut}
+        />
+      )}
+
+      {/* Saved Trips */}
+      {userProfile && (
+        <MyTripsPanel
+            isOpen={isMyTripsOpen}
+            onClose={() => setIsMyTripsOpen(false)}
+            currentTripId={savedTrip?.id}
+            onOpenTrip={handleOpenTrip}
+        />
+      )}
+
+      {/* Share Link */}
+      {savedTrip && sharePlanId && (
+        <SharePanel
+            isOpen={true}
+            onClose={() => setSharePlanId(null)}
+            tripId={savedTrip.id}
+            plans={savedTrip.optimizedPlans}
+            planId={sharePlanId}
+        />
+      )}
+
+      {/* Sign In */}
+      <AuthModal isOpen={isSessionChecked && !userProfile} onSignedIn={startSession} />
+
+      {/* Trip History */}
+      {savedTrip && (
+        <TripHistoryPanel
+            isOpen={isHistoryOpen}
+            onClose={() => setIsHistoryOpen(false)}
+            tripId={savedTrip.id}
+            latestVersion={savedTrip.version}
+            onRollback={handleTripRollback}
         />
       )}
     </div>
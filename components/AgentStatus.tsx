@@ -3,9 +3,10 @@ import { AgentStatus } from '../types';
 
 interface AgentStatusProps {
   status: AgentStatus;
+  onCancel?: () => void; // Set while the running step can be cancelled
 }
 
-const AgentStatusVisualizer: React.FC<AgentStatusProps> = ({ status }) => {
+const AgentStatusVisualizer: React.FC<AgentStatusProps> = ({ status, onCancel }) => {
   if (status === AgentStatus.IDLE || status === AgentStatus.COMPLETE || status === AgentStatus.ERROR) {
     return null;
   }
@@ -30,9 +31,19 @@ const AgentStatusVisualizer: React.FC<AgentStatusProps> = ({ status }) => {
 
   return (
     <div className="w-full bg-white border border-gray-100 rounded-xl shadow-sm p-6 mb-6">
-      <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-4">
-        <i className="fa-solid fa-server mr-2"></i> Cloud Workflow Orchestration
-      </h3>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">
+          <i className="fa-solid fa-server mr-2"></i> Cloud Workflow Orchestration
+        </h3>
+        {onCancel && !isReviewing && (
+          <button
+            onClick={onCancel}
+            className="text-xs font-semibold text-gray-500 hover:text-red-600 hover:bg-red-50 px-3 py-1.5 rounded-lg transition-colors"
+          >
+            <i className="fa-solid fa-stop mr-1"></i> Cancel
+          </button>
+        )}
+      </div>
       <div className="relative flex items-center justify-between w-full">
         {/* Progress Bar Background */}
         <div className="absolute top-1/2 left-0 w-full h-1 bg-gray-200 -z-10 rounded-full"></div>
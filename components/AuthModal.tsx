@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { UserProfile } from '../types';
+import { login, register } from '../services/auth';
+
+interface AuthModalProps {
+  isOpen: boolean;
+  onSignedIn: (profile: UserProfile) => void;
+}
+
+type AuthMode = 'login' | 'register';
+
+const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onSignedIn }) => {
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const profile = mode === 'login'
+        ? await login(email, password)
+        : await register(name, email, password);
+      setPassword('');
+      onSignedIn(profile);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setError(null);
+  };
+
+  const inputClass = "w-full border border-gray-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white w-full max-w-md rounded-2xl shadow-2xl overflow-hidden m-4 flex flex-col">
+        {/* Header */}
+        <div className="bg-gray-900 text-white p-6">
+          <h2 className="text-xl font-bold">
+            <i className="fa-solid fa-paper-plane text-blue-400 mr-2"></i>
+            {mode === 'login' ? 'Welcome back' : 'Create your account'}
+          </h2>
+          <p className="text-gray-400 text-sm">Sign in to plan trips and keep them across devices</p>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex border-b border-gray-200">
+          {(['login', 'register'] as AuthMode[]).map(tab => (
+            <button
+              key={tab}
+              onClick={() => switchMode(tab)}
+              className={`flex-1 py-3 text-sm font-semibold transition-colors ${
+                mode === tab ? 'text-blue-600 border-b-2 border-blue-600' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab === 'login' ? 'Sign In' : 'Sign Up'}
+            </button>
+          ))}
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {mode === 'register' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input type="text" value={name} onChange={(e) => setName(e.target.value)} required autoComplete="name" className={inputClass} />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} required autoComplete="email" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              minLength={mode === 'register' ? 8 : undefined}
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              className={inputClass}
+            />
+            {mode === 'register' && <p className="text-xs text-gray-400 mt-1">At least 8 characters.</p>}
+          </div>
+
+          {error && (
+            <div className="px-4 py-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <i className="fa-solid fa-triangle-exclamation mr-2"></i>{error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full py-2.5 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold rounded-lg shadow-sm transition-all disabled:opacity-50"
+          >
+            {isSubmitting
+              ? <i className="fa-solid fa-circle-notch fa-spin"></i>
+              : mode === 'login' ? 'Sign In' : 'Create Account'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AuthModal;
@@ -5,9 +5,12 @@ interface ChatInterfaceProps {
   messages: ChatMessage[];
   onSendMessage: (msg: string) => void;
   status: AgentStatus;
+  isBusy?: boolean; // A follow-up message is being routed or applied
+  hasPlans?: boolean; // Follow-ups can change the plans shown
+  onCancel?: () => void; // Set while an agent call can be cancelled
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage, status }) => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage, status, isBusy, hasPlans, onCancel }) => {
   const [input, setInput] = useState('');
   const endRef = useRef<HTMLDivElement>(null);
 
@@ -19,15 +22,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage,
     scrollToBottom();
   }, [messages]);
 
+  const isProcessing = !!isBusy || (status !== AgentStatus.IDLE && status !== AgentStatus.COMPLETE && status !== AgentStatus.ERROR);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || status !== AgentStatus.IDLE) return;
+    if (!input.trim() || isProcessing) return;
     onSendMessage(input);
     setInput('');
   };
 
-  const isProcessing = status !== AgentStatus.IDLE && status !== AgentStatus.COMPLETE && status !== AgentStatus.ERROR;
-
   return (
     <div className="flex flex-col h-[calc(100vh-12rem)] min-h-[500px] max-h-[800px] bg-white rounded-2xl shadow-lg border-2 border-gray-200 overflow-hidden">
       {/* Header */}
@@ -113,16 +116,27 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage,
             value={input}
             onChange={(e) => setInput(e.target.value)}
             disabled={isProcessing}
-            placeholder={isProcessing ? "Agent is thinking..." : "Describe your dream trip..."}
+            placeholder={isProcessing ? "Agent is thinking..." : hasPlans ? "Ask for a change, like \"make day 2 more food-focused\"..." : "Describe your dream trip..."}
             className="w-full pl-5 pr-14 py-4 bg-white text-gray-900 placeholder-gray-500 border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 shadow-md transition-all disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed text-sm font-medium"
           />
-          <button
-            type="submit"
-            disabled={!input.trim() || isProcessing}
-            className="absolute right-2 top-2 p-2 w-10 h-10 flex items-center justify-center bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg hover:from-blue-700 hover:to-indigo-700 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed transition-all shadow-md hover:shadow-lg transform hover:scale-105 disabled:transform-none"
-          >
-            <i className="fa-solid fa-paper-plane text-sm"></i>
-          </button>
+          {isProcessing && onCancel ? (
+            <button
+              type="button"
+              onClick={onCancel}
+              title="Stop the agent"
+              className="absolute right-2 top-2 p-2 w-10 h-10 flex items-center justify-center bg-red-500 text-white rounded-lg hover:bg-red-600 transition-all shadow-md hover:shadow-lg"
+            >
+              <i className="fa-solid fa-stop text-sm"></i>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim() || isProcessing}
+              className="absolute right-2 top-2 p-2 w-10 h-10 flex items-center justify-center bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg hover:from-blue-700 hover:to-indigo-700 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed transition-all shadow-md hover:shadow-lg transform hover:scale-105 disabled:transform-none"
+            >
+              <i className="fa-solid fa-paper-plane text-sm"></i>
+            </button>
+          )}
         </div>
       </form>
     </div>
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { FeedbackTarget, TripFeedback } from '../types';
+import { tallyVotes, commentsOn } from '../services/feedback';
+
+// What ItineraryView needs to show and collect the group's votes and comments
+export interface Collaboration {
+  feedback: TripFeedback;
+  currentUserId?: string; // Without one, feedback is shown read-only
+  tripOwnerId?: string; // Can delete any comment
+  onVote: (target: FeedbackTarget, value: 1 | -1 | 0) => void;
+  onComment: (target: FeedbackTarget, text: string) => void;
+  onDeleteComment: (commentId: string) => void;
+}
+
+interface FeedbackControlsProps {
+  collaboration: Collaboration;
+  target: FeedbackTarget;
+}
+
+const FeedbackControls: React.FC<FeedbackControlsProps> = ({ collaboration, target }) => {
+  const { feedback, currentUserId, tripOwnerId, onVote, onComment, onDeleteComment } = collaboration;
+  const [showComments, setShowComments] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const tally = tallyVotes(feedback, target, currentUserId);
+  const comments = commentsOn(feedback, target);
+  const canEdit = !!currentUserId;
+
+  const vote = (value: 1 | -1) => {
+    if (!canEdit) return;
+    // Clicking your current vote again takes it back
+    onVote(target, tally.mine === value ? 0 : value);
+  };
+
+  const submit = () => {
+    if (!draft.trim()) return;
+    onComment(target, draft.trim());
+    setDraft('');
+  };
+
+  const voteClass = (active: boolean, color: string) =>
+    `flex items-center gap-1 px-2 py-0.5 rounded-full border transition-colors ${
+      active ? `${color} font-bold` : 'border-gray-200 text-gray-500 hover:border-gray-400'
+    } ${canEdit ? '' : 'cursor-default'}`;
+
+  return (
+    <div className="text-xs" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => vote(1)}
+          className={voteClass(tally.mine === 1, 'border-green-300 bg-green-50 text-green-700')}
+          title={canEdit ? 'Vote up' : 'Sign in to vote'}
+        >
+          <i className="fa-solid fa-thumbs-up"></i> {tally.up}
+        </button>
+        <button
+          onClick={() => vote(-1)}
+          className={voteClass(tally.mine === -1, 'border-red-300 bg-red-50 text-red-700')}
+          title={canEdit ? 'Vote down' : 'Sign in to vote'}
+        >
+          <i className="fa-solid fa-thumbs-down"></i> {tally.down}
+        </button>
+        <button
+          onClick={() => setShowComments(!showComments)}
+          className="flex items-center gap-1 px-2 py-0.5 rounded-full border border-gray-200 text-gray-500 hover:border-gray-400"
+        >
+          <i className="fa-regular fa-comment"></i> {comments.length}
+        </button>
+      </div>
+
+      {showComments && (
+        <div className="mt-2 space-y-2 animate-fade-in">
+          {comments.map(comment => (
+            <div key={comment.id} className="bg-gray-50 border border-gray-100 rounded-lg px-3 py-2">
+              <div className="flex justify-between items-center mb-0.5">
+                <span className="font-semibold text-gray-700">{comment.userName}</span>
+                <span className="flex items-center gap-2 text-gray-400">
+                  {new Date(comment.createdAt).toLocaleDateString()}
+                  {(comment.userId === currentUserId || (currentUserId && currentUserId === tripOwnerId)) && (
+                    <button onClick={() => onDeleteComment(comment.id)} className="hover:text-red-600" title="Delete comment">
+                      <i className="fa-solid fa-trash-can"></i>
+                    </button>
+                  )}
+                </span>
+              </div>
+              <p className="text-gray-600 whitespace-pre-wrap">{comment.text}</p>
+            </div>
+          ))}
+          {comments.length === 0 && <p className="text-gray-400 italic">No comments yet.</p>}
+          {canEdit ? (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && submit()}
+                placeholder="Add a comment..."
+                maxLength={1000}
+                className="flex-1 border border-gray-300 rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500"
+              />
+              <button onClick={submit} className="bg-gray-100 hover:bg-gray-200 px-3 rounded-lg text-gray-600">
+                <i className="fa-solid fa-paper-plane"></i>
+              </button>
+            </div>
+          ) : (
+            <p className="text-gray-400">Sign in to VibeTrip to vote and comment.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FeedbackControls;
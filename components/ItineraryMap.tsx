@@ -5,6 +5,9 @@ interface ItineraryMapProps {
   days: DayPlan[];
 }
 
+// Route colour per leg of a multi-city trip (single-city trips use the first)
+const LEG_COLORS = ['#2563EB', '#DB2777', '#059669', '#D97706', '#7C3AED'];
+
 declare global {
   interface Window {
     google: any;
@@ -15,7 +18,7 @@ const ItineraryMap: React.FC<ItineraryMapProps> = ({ days }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const [map, setMap] = useState<any>(null);
   const [markers, setMarkers] = useState<any[]>([]);
-  const [polyline, setPolyline] = useState<any>(null);
+  const [polylines, setPolylines] = useState<any[]>([]);
   const [mapError, setMapError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
 
@@ -116,21 +119,30 @@ const ItineraryMap: React.FC<ItineraryMapProps> = ({ days }) => {
 
     // 1. Clear old markers
     markers.forEach(m => m.setMap(null));
-    if (polyline) polyline.setMap(null);
+    polylines.forEach(p => p.setMap(null));
 
     const newMarkers: any[] = [];
     const pathCoordinates: any[] = [];
+    // Consecutive stops in the same city share a path; a new path starts at each leg change
+    const legPaths: { color: string; path: any[] }[] = [];
     const bounds = new window.google.maps.LatLngBounds();
     const infoWindow = new window.google.maps.InfoWindow();
     const geocoder = new window.google.maps.Geocoder();
 
-    const allPlaces: { place: Place, dayIdx: number, type: string }[] = [];
+    const allPlaces: { place: Place, dayIdx: number, type: string, legIdx: number }[] = [];
+    const legOrder: string[] = [];
+    const legIndex = (leg?: string) => {
+        if (!leg) return 0;
+        if (!legOrder.includes(leg)) legOrder.push(leg);
+        return legOrder.indexOf(leg);
+    };
     
     // Flatten places
     days.forEach((day, idx) => {
-        day.morning.forEach(p => allPlaces.push({ place: p, dayIdx: day.day, type: 'Morning' }));
-        day.afternoon.forEach(p => allPlaces.push({ place: p, dayIdx: day.day, type: 'Afternoon' }));
-        day.evening.forEach(p => allPlaces.push({ place: p, dayIdx: day.day, type: 'Evening' }));
+        const legIdx = legIndex(day.leg);
+        day.morning.forEach(p => allPlaces.push({ place: p, dayIdx: day.day, type: 'Morning', legIdx }));
+        day.afternoon.forEach(p => allPlaces.push({ place: p, dayIdx: day.day, type: 'Afternoon', legIdx }));
+        day.evening.forEach(p => allPlaces.push({ place: p, dayIdx: day.day, type: 'Evening', legIdx }));
     });
 
     const processPlaces = async () => {
@@ -158,12 +170,14 @@ const ItineraryMap: React.FC<ItineraryMapProps> = ({ days }) => {
             }
 
             if (position) {
+                const color = LEG_COLORS[item.legIdx % LEG_COLORS.length];
+
                 // Create custom marker element with day number
                 const markerContent = document.createElement('div');
                 markerContent.className = 'custom-marker';
                 markerContent.innerHTML = `
                     <div style="
-                        background: #2563EB;
+                        background: ${color};
                         color: white;
                         width: 32px;
                         height: 32px;
@@ -209,7 +223,7 @@ const ItineraryMap: React.FC<ItineraryMapProps> = ({ days }) => {
                     infoWindow.setContent(`
                         <div style="padding:8px;">
                             <strong style="font-size:14px;">${item.place.name}</strong><br/>
-                            <span style="color:#666; font-size:12px;">Day ${item.dayIdx} - ${item.type}</span>
+                            <span style="color:#666; font-size:12px;">Day ${item.dayIdx} - ${item.type}${legOrder.length > 1 ? ` - ${legOrder[item.legIdx]}` : ''}</span>
                         </div>
                     `);
                     infoWindow.open(map, marker);
@@ -217,22 +231,46 @@ const ItineraryMap: React.FC<ItineraryMapProps> = ({ days }) => {
 
                 newMarkers.push(marker);
                 pathCoordinates.push(position);
+                const currentPath = legPaths[legPaths.length - 1];
+                if (currentPath && currentPath.color === color) {
+                    currentPath.path.push(position);
+                } else {
+                    legPaths.push({ color, path: [position] });
+                }
                 bounds.extend(position);
             }
         }
 
-        // Draw Polyline
-        const newPolyline = new window.google.maps.Polyline({
-            path: pathCoordinates,
-            geodesic: true,
-            strokeColor: "#2563EB", // Blue-600
-            strokeOpacity: 0.8,
-            strokeWeight: 4,
+        // Draw one polyline per leg, joined by dashed transfer lines
+        const newPolylines: any[] = [];
+        legPaths.forEach((leg, idx) => {
+            newPolylines.push(new window.google.maps.Polyline({
+                path: leg.path,
+                geodesic: true,
+                strokeColor: leg.color,
+                strokeOpacity: 0.8,
+                strokeWeight: 4,
+                map,
+            }));
+
+            const next = legPaths[idx + 1];
+            if (next) {
+                newPolylines.push(new window.google.maps.Polyline({
+                    path: [leg.path[leg.path.length - 1], next.path[0]],
+                    geodesic: true,
+                    strokeOpacity: 0,
+                    icons: [{
+                        icon: { path: 'M 0,-1 0,1', strokeOpacity: 0.8, strokeColor: '#6B7280', scale: 3 },
+                        offset: '0',
+                        repeat: '16px',
+                    }],
+                    map,
+                }));
+            }
         });
-        newPolyline.setMap(map);
 
         setMarkers(newMarkers);
-        setPolyline(newPolyline);
+        setPolylines(newPolylines);
 
         if (!pathCoordinates.length) {
              map.setZoom(2);
@@ -1,16 +1,39 @@
-import React, { useState } from 'react';
-import { Itinerary, Place, DayPlan } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Itinerary, Place, DayPlan, TravelMode, EditHistory, DiscoveryResult, TimeOfDay, TripIntent } from '../types';
 import ItineraryMap from './ItineraryMap';
 import { exportItineraryToPDF } from '../utils/pdfExport';
+import { groupDaysByLeg } from '../services/legs';
+import { stopsForDay, endTime } from '../services/scheduler';
+import { travelForDay, formatDuration } from '../services/travelEstimator';
+import FeedbackControls, { Collaboration } from './FeedbackControls';
+import { canUndo, canRedo } from '../services/editHistory';
+import { StopEdit, StopRef, candidatesForDay } from '../services/stopEditor';
+import { countTravelers, perPersonAmount, roomsNeeded } from '../services/costEstimator';
+import { checkBudget } from '../services/budget';
+import { canConvert, convertTotal, inDisplayCurrency } from '../services/displayCurrency';
 
-export type ModificationType = 'SWAP' | 'REGEN_DAY' | 'REOPTIMIZE';
+export type ModificationType = 'SWAP' | 'REGEN_DAY' | 'REOPTIMIZE' | 'DROP_LOWEST_VOTED' | 'INSTRUCTION' | 'FIT_BUDGET'; // INSTRUCTION: free-form edit from the chat
 
 interface ItineraryViewProps {
   itineraries: Itinerary[];
-  onConfirm: () => void;
-  isConfirmed: boolean;
-  onModify: (type: ModificationType, payload: any) => void;
+  onConfirm?: () => void;
+  isConfirmed?: boolean;
+  onModify?: (type: ModificationType, payload: any) => void;
   isModifying?: boolean;
+  isStreaming?: boolean; // Days are still arriving from the Optimization Agent
+  savedVersion?: number; // Version of the saved trip, once saved
+  onShowHistory?: () => void;
+  onShare?: (itineraryId: string) => void;
+  readOnly?: boolean; // Shared links: no tweaks, swaps or booking
+  collaboration?: Collaboration; // Votes and comments on the plan and its places
+  editHistory?: EditHistory;
+  onUndo?: (itineraryId: string) => void;
+  onRedo?: (itineraryId: string) => void;
+  onEditStops?: (itineraryId: string, edit: StopEdit) => void; // Manual moves, deletes and additions
+  candidates?: DiscoveryResult | null; // Pool for adding stops
+  onSelect?: (itineraryId: string) => void; // Called when the variant shown changes
+  intent?: TripIntent | null; // Travelers the totals are for, the budget limit, and exchange rates for the PDF budget breakdown
+  homeCurrency?: string; // Offered as a display currency next to the plan's own
 }
 
 // Helper to get a random image if the API doesn't provide one (for aesthetics)
@@ -18,16 +41,57 @@ const getPlaceholderImage = (keyword: string, index: number) => {
   return `https://picsum.photos/400/300?random=${index}`;
 };
 
-const ItineraryView: React.FC<ItineraryViewProps> = ({ itineraries, onConfirm, isConfirmed, onModify, isModifying }) => {
+const TRAVEL_MODE_ICONS: Record<TravelMode, string> = {
+  walk: 'fa-person-walking',
+  transit: 'fa-train-subway',
+  drive: 'fa-car',
+};
+
+const SLOTS: TimeOfDay[] = ['Morning', 'Afternoon', 'Evening'];
+
+const slotStops = (day: DayPlan, slot: TimeOfDay): Place[] =>
+  slot === 'Morning' ? day.morning : slot === 'Afternoon' ? day.afternoon : day.evening;
+
+const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+  walk: 'walk',
+  transit: 'by transit',
+  drive: 'drive',
+};
+
+const ItineraryView: React.FC<ItineraryViewProps> = ({ itineraries, onConfirm, isConfirmed, onModify, isModifying, isStreaming, savedVersion, onShowHistory, onShare, readOnly, collaboration, editHistory, onUndo, onRedo, onEditStops, candidates, onSelect, intent, homeCurrency }) => {
   const [selectedIdx, setSelectedIdx] = useState(0);
   const [showReasoning, setShowReasoning] = useState(false);
   const [hoveredPlace, setHoveredPlace] = useState<string | null>(null);
  const [expandedDescriptions, setExpandedDescriptions] = useState<Record<string, boolean>>({});
+  const [draggedStop, setDraggedStop] = useState<StopRef | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [addingStop, setAddingStop] = useState<{ day: number; slot: TimeOfDay; placeName: string } | null>(null);
+  const [showHomeCurrency, setShowHomeCurrency] = useState(false);
   
-  const selectedItinerary = itineraries[selectedIdx];
+  // Variant count can shrink (e.g. streaming replaced by a fallback plan)
+  const selectedItinerary = itineraries[selectedIdx] || itineraries[0];
+
+  // Shown and exported in the display currency; edits address stops by day and name, so they apply to the plan itself
+  const convertible = !!homeCurrency && canConvert(selectedItinerary.currency, homeCurrency, intent);
+  const displayCurrency = convertible && showHomeCurrency ? homeCurrency! : selectedItinerary.currency;
+  const { itinerary: shownItinerary, intent: shownIntent } = inDisplayCurrency(selectedItinerary, displayCurrency, intent);
+  const dayGroups = groupDaysByLeg(shownItinerary.days);
+
+  const tabTotal = (itinerary: Itinerary): [string, number] =>
+    canConvert(itinerary.currency, displayCurrency, intent)
+      ? [displayCurrency, convertTotal(itinerary.totalEstimatedCost, itinerary.currency, displayCurrency, intent)]
+      : [itinerary.currency, itinerary.totalEstimatedCost];
+
+  useEffect(() => {
+    onSelect?.(selectedItinerary.id);
+  }, [selectedItinerary.id]);
 
   const downloadJSON = () => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(selectedItinerary, null, 2));
+    // Plans saved before schedules existed get their times filled in
+    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify({
+      ...shownItinerary,
+      days: shownItinerary.days.map(day => ({ ...day, schedule: stopsForDay(day) })),
+    }, null, 2));
     const downloadAnchorNode = document.createElement('a');
     downloadAnchorNode.setAttribute("href", dataStr);
     downloadAnchorNode.setAttribute("download", `trip_${selectedItinerary.id}.json`);
@@ -38,7 +102,7 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itineraries, onConfirm, i
 
   const downloadPDF = () => {
     try {
-      exportItineraryToPDF(selectedItinerary);
+      exportItineraryToPDF(shownItinerary, shownIntent);
     } catch (error) {
       console.error('Error generating PDF:', error);
       alert('Failed to generate PDF. Please try again.');
@@ -46,7 +110,7 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itineraries, onConfirm, i
   };
 
   const handleSwap = (placeName: string, day: number, timeOfDay: string) => {
-    if (isModifying) return;
+    if (isModifying || isStreaming || !onModify) return;
     onModify('SWAP', { 
         itineraryId: selectedItinerary.id,
         placeName,
@@ -56,7 +120,7 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itineraries, onConfirm, i
   };
 
   const handleRegenDay = (day: number) => {
-    if (isModifying) return;
+    if (isModifying || isStreaming || !onModify) return;
     onModify('REGEN_DAY', {
         itineraryId: selectedItinerary.id,
         day
@@ -64,10 +128,87 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itineraries, onConfirm, i
   };
 
   const handlePaceChange = (pace: string) => {
-     if (isModifying) return;
+     if (isModifying || isStreaming || !onModify) return;
      onModify('REOPTIMIZE', { pace });
   };
 
+  const handleDropLowestVoted = () => {
+    if (isModifying || isStreaming || !onModify) return;
+    onModify('DROP_LOWEST_VOTED', { itineraryId: selectedItinerary.id });
+  };
+
+  const handleFitBudget = () => {
+    if (isModifying || isStreaming || !onModify) return;
+    onModify('FIT_BUDGET', { itineraryId: selectedItinerary.id });
+  };
+
+  // Only while the plan is complete; streamed days would all look over budget or under it
+  const budget = shownIntent && !isStreaming ? checkBudget(shownItinerary, shownIntent) : null;
+
+  const canEditStops = !readOnly && !!onEditStops && !isModifying && !isStreaming;
+
+  const editStops = (edit: StopEdit) => {
+    if (!canEditStops) return;
+    onEditStops!(selectedItinerary.id, edit);
+  };
+
+  // Dropping on a stop inserts before it; dropping on a slot zone appends to that slot
+  const handleDrop = (e: React.DragEvent, day: number, slot: TimeOfDay, index?: number) => {
+    e.preventDefault();
+    if (draggedStop) editStops({ type: 'move', from: draggedStop, to: { day, slot, index } });
+    setDraggedStop(null);
+    setDropTarget(null);
+  };
+
+  const allowDrop = (e: React.DragEvent, target: string) => {
+    if (!draggedStop) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (dropTarget !== target) setDropTarget(target);
+  };
+
+  const handleAddStop = () => {
+    if (!addingStop) return;
+    const day = selectedItinerary.days.find(d => d.day === addingStop.day);
+    const place = day && candidatesForDay(selectedItinerary, day, candidates || null).find(p => p.name === addingStop.placeName);
+    if (place) editStops({ type: 'add', place, to: { day: addingStop.day, slot: addingStop.slot } });
+    setAddingStop(null);
+  };
+
+  const undoable = !readOnly && !!onUndo && !!editHistory && canUndo(editHistory, selectedItinerary.id);
+  const redoable = !readOnly && !!onRedo && !!editHistory && canRedo(editHistory, selectedItinerary.id);
+
+  const handleUndo = () => {
+    if (isModifying || isStreaming || !undoable) return;
+    onUndo!(selectedItinerary.id);
+  };
+
+  const handleRedo = () => {
+    if (isModifying || isStreaming || !redoable) return;
+    onRedo!(selectedItinerary.id);
+  };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their own undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const hasPlaceVotes = !!collaboration?.feedback.votes.some(v => v.planId === selectedItinerary.id && v.place && v.value === -1);
+
   return (
     <div className={`flex flex-col h-full animate-fade-in relative ${isModifying ? 'opacity-50 pointer-events-none' : ''}`}>
       
@@ -82,6 +223,7 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itineraries, onConfirm, i
       )}
 
       {/* Tweak Controls */}
+      {!readOnly && (
       <div className="flex flex-wrap items-center gap-2 mb-4 bg-gradient-to-r from-blue-50 to-indigo-50 p-4 rounded-xl border border-blue-100">
         <span className="text-xs font-bold text-gray-600 uppercase mr-2 flex items-center gap-2">
           <i className="fa-solid fa-sliders text-blue-600"></i>
@@ -105,9 +247,51 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itineraries, onConfirm, i
         >
             <i className="fa-solid fa-piggy-bank mr-2 text-green-500"></i> Cheaper
         </button>
+        {budget && budget.overBy > 0 && (
+          <button
+              onClick={handleFitBudget}
+              className="px-4 py-2 bg-white border-2 border-gray-300 hover:border-green-500 hover:bg-green-50 rounded-lg text-sm font-semibold text-gray-700 hover:text-green-700 transition-all shadow-sm hover:shadow-md"
+              title="Swap the most expensive stops for cheaper discovered places"
+          >
+              <i className="fa-solid fa-scale-balanced mr-2 text-green-600"></i> Fit to Budget
+          </button>
+        )}
+        {hasPlaceVotes && (
+          <button
+              onClick={handleDropLowestVoted}
+              className="px-4 py-2 bg-white border-2 border-gray-300 hover:border-red-500 hover:bg-red-50 rounded-lg text-sm font-semibold text-gray-700 hover:text-red-700 transition-all shadow-sm hover:shadow-md"
+              title="Replace the places the group voted down the most"
+          >
+              <i className="fa-solid fa-thumbs-down mr-2 text-red-500"></i> Drop Lowest Voted
+          </button>
+        )}
+        {(onUndo || onRedo) && (
+          <div className="ml-auto flex gap-2">
+            <button
+                onClick={handleUndo}
+                disabled={!undoable}
+                className="px-3 py-2 bg-white border-2 border-gray-300 hover:border-blue-500 rounded-lg text-sm font-semibold text-gray-700 transition-all shadow-sm disabled:opacity-40 disabled:hover:border-gray-300"
+                title="Undo last change to this plan (Ctrl+Z)"
+            >
+                <i className="fa-solid fa-rotate-left"></i>
+                <span className="hidden sm:inline ml-2">Undo</span>
+            </button>
+            <button
+                onClick={handleRedo}
+                disabled={!redoable}
+                className="px-3 py-2 bg-white border-2 border-gray-300 hover:border-blue-500 rounded-lg text-sm font-semibold text-gray-700 transition-all shadow-sm disabled:opacity-40 disabled:hover:border-gray-300"
+                title="Redo (Ctrl+Shift+Z)"
+            >
+                <i className="fa-solid fa-rotate-right"></i>
+                <span className="hidden sm:inline ml-2">Redo</span>
+            </button>
+          </div>
+        )}
       </div>
+      )}
 
       {/* Variant Tabs */}
+      {!readOnly && (
       <div className="flex gap-3 mb-6 overflow-x-auto pb-2 scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-gray-100">
         {itineraries.map((itinerary, idx) => (
           <button
@@ -126,11 +310,12 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itineraries, onConfirm, i
             </div>
             <div className="text-xs opacity-90 truncate mb-2">{itinerary.tags.join(' • ')}</div>
             <div className="mt-2 text-sm font-mono font-bold">
-              <span>{itinerary.currency}</span> {itinerary.totalEstimatedCost.toLocaleString()}
+              <span>{tabTotal(itinerary)[0]}</span> {tabTotal(itinerary)[1].toLocaleString()}
             </div>
           </button>
         ))}
       </div>
+      )}
 
       {/* Main Content Area */}
       <div className="bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden flex flex-col md:flex-row min-h-[500px]">
@@ -141,6 +326,51 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itineraries, onConfirm, i
             <div>
               <h2 className="text-2xl font-bold text-gray-800">{selectedItinerary.title}</h2>
               <p className="text-gray-500 text-sm mt-1">{selectedItinerary.description}</p>
+              {intent && (
+                <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+                  <span className="font-bold text-gray-800">
+                    <i className="fa-solid fa-users mr-1 text-blue-600"></i>
+                    {shownItinerary.currency} {shownItinerary.totalEstimatedCost.toLocaleString()} for {countTravelers(intent.travelers)} traveler{countTravelers(intent.travelers) === 1 ? '' : 's'}
+                  </span>
+                  <span className="text-gray-600">
+                    ≈ {shownItinerary.currency} {Math.round(perPersonAmount(shownItinerary.totalEstimatedCost, intent.travelers)).toLocaleString()} per person
+                  </span>
+                  <span className="text-xs text-gray-400" title="Children and seniors pay reduced prices for tickets and meals">
+                    {roomsNeeded(intent.travelers)} hotel room{roomsNeeded(intent.travelers) === 1 ? '' : 's'}
+                  </span>
+                </div>
+              )}
+              {budget && (
+                <div className={`mt-2 inline-flex items-center gap-2 px-3 py-1 rounded-lg text-xs font-semibold border ${
+                  budget.overBy > 0 ? 'bg-red-50 border-red-200 text-red-700' : 'bg-green-50 border-green-200 text-green-700'
+                }`}>
+                  <i className={`fa-solid ${budget.overBy > 0 ? 'fa-triangle-exclamation' : 'fa-circle-check'}`}></i>
+                  {budget.overBy > 0
+                    ? `${shownItinerary.currency} ${budget.overBy.toLocaleString()} over your ${shownItinerary.currency} ${budget.limit.toLocaleString()} budget`
+                    : `Within your ${shownItinerary.currency} ${budget.limit.toLocaleString()} budget (${shownItinerary.currency} ${(budget.limit - budget.total).toLocaleString()} left)`}
+                </div>
+              )}
+              {convertible && (
+                <div className="mt-2 flex items-center gap-2 text-xs">
+                  <span className="text-gray-500">Show prices in</span>
+                  <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden font-semibold">
+                    {[selectedItinerary.currency, homeCurrency!].map(code => (
+                      <button
+                        key={code}
+                        onClick={() => setShowHomeCurrency(code === homeCurrency)}
+                        className={`px-3 py-1 transition-colors ${displayCurrency === code ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-blue-50'}`}
+                      >
+                        {code}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {collaboration && (
+                <div className="mt-3">
+                  <FeedbackControls collaboration={collaboration} target={{ planId: selectedItinerary.id, place: null }} />
+                </div>
+              )}
             </div>
             <div className="flex gap-2 flex-wrap">
               <button
@@ -159,6 +389,26 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itineraries, onConfirm, i
                 <i className="fa-solid fa-code"></i>
                 <span className="hidden sm:inline">JSON</span>
               </button>
+              {onShare && (
+                <button
+                  onClick={() => onShare(selectedItinerary.id)}
+                  className="px-4 py-2 bg-white border-2 border-gray-300 text-gray-700 rounded-lg hover:border-blue-500 hover:text-blue-700 transition-all shadow-sm hover:shadow-md font-semibold text-sm flex items-center gap-2"
+                  title="Share a read-only link"
+                >
+                  <i className="fa-solid fa-share-nodes"></i>
+                  <span className="hidden sm:inline">Share</span>
+                </button>
+              )}
+              {onShowHistory && (
+                <button
+                  onClick={onShowHistory}
+                  className="px-4 py-2 bg-white border-2 border-gray-300 text-gray-700 rounded-lg hover:border-blue-500 hover:text-blue-700 transition-all shadow-sm hover:shadow-md font-semibold text-sm flex items-center gap-2"
+                  title="Version History"
+                >
+                  <i className="fa-solid fa-clock-rotate-left"></i>
+                  <span className="hidden sm:inline">History{savedVersion ? ` (v${savedVersion})` : ''}</span>
+                </button>
+              )}
             </div>
           </div>
 
@@ -221,103 +471,278 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itineraries, onConfirm, i
             </div>
           )}
 
+          {isStreaming && (
+            <div className="mb-6 flex items-center gap-3 px-4 py-3 bg-blue-50 border border-blue-200 rounded-xl text-sm text-blue-700">
+              <i className="fa-solid fa-circle-notch fa-spin"></i>
+              <span className="font-semibold">Still planning — more days are on their way...</span>
+            </div>
+          )}
+
           <div className="space-y-8">
-            {selectedItinerary.days.map((day, dayIdx) => (
-              <div key={dayIdx} className="relative pl-6 border-l-2 border-gray-100 group/day">
-                {/* Day Marker */}
-                <div className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-blue-100 border-2 border-blue-500"></div>
-                
-                <div className="flex justify-between items-center mb-4">
-                    <h3 className="text-lg font-bold text-gray-800">Day {day.day}: {day.title}</h3>
-                    <button 
-                        onClick={() => handleRegenDay(day.day)}
-                        className="opacity-0 group-hover/day:opacity-100 text-xs text-blue-600 hover:text-blue-800 bg-blue-50 px-2 py-1 rounded transition-all"
-                    >
-                        <i className="fa-solid fa-arrows-rotate mr-1"></i> Regenerate Day
-                    </button>
-                </div>
+            {dayGroups.map((group, groupIdx) => (
+              <div key={`${group.leg || 'trip'}-${groupIdx}`} className="space-y-8">
+                {/* Leg Header (multi-city trips) */}
+                {dayGroups.length > 1 && group.leg && (
+                  <div className="flex items-center justify-between px-4 py-2 bg-indigo-50 border border-indigo-200 rounded-lg">
+                    <span className="font-bold text-indigo-800 flex items-center gap-2">
+                      <i className="fa-solid fa-city"></i>
+                      {group.leg}
+                    </span>
+                    <span className="text-xs font-semibold text-indigo-600">
+                      {group.days.length === 1
+                        ? `Day ${group.days[0].day}`
+                        : `Days ${group.days[0].day}–${group.days[group.days.length - 1].day}`}
+                    </span>
+                  </div>
+                )}
+
+                {group.days.map((day) => {
+                  const dayIdx = shownItinerary.days.indexOf(day);
+                  const travel = travelForDay(day);
+                  return (
+                  <div key={dayIdx} className="relative pl-6 border-l-2 border-gray-100 group/day">
+                    {/* Day Marker */}
+                    <div className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-blue-100 border-2 border-blue-500"></div>
                 
-                <div className="space-y-4">
-                  {[...day.morning, ...day.afternoon, ...day.evening].map((place, placeIdx) => {
-                    const timeOfDay = placeIdx < day.morning.length ? 'Morning' : (placeIdx < day.morning.length + day.afternoon.length ? 'Afternoon' : 'Evening');
-                    const uniqueKey = `${day.day}-${place.name}-${placeIdx}`;
-                    
-                    return (
-                    <div
-                        key={uniqueKey}
-                        className="relative bg-white p-4 rounded-xl border-2 border-gray-200 hover:border-blue-300 hover:shadow-lg transition-all flex gap-4 group/card"
-                        onMouseEnter={() => setHoveredPlace(uniqueKey)}
-                        onMouseLeave={() => setHoveredPlace(null)}
-                    >
-                      {/* Swap Button - Always Visible */}
-                      <div className="absolute top-3 right-3 z-10">
-                          <button
-                            onClick={() => handleSwap(place.name, day.day, timeOfDay)}
-                            className={`
-                              bg-gradient-to-r from-blue-500 to-indigo-500 text-white
-                              px-3 py-2 rounded-lg shadow-md hover:shadow-xl
-                              flex items-center gap-2 font-semibold text-xs
-                              transition-all transform hover:scale-105
-                              ${hoveredPlace === uniqueKey ? 'opacity-100' : 'opacity-60 hover:opacity-100'}
-                            `}
-                            title="Swap Activity"
+                    <div className="flex justify-between items-center mb-4">
+                        <div>
+                            <h3 className="text-lg font-bold text-gray-800">Day {day.day}: {day.title}</h3>
+                            {day.isTransfer && (
+                                <span className="inline-flex items-center gap-1 mt-1 text-[10px] px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 uppercase tracking-wider">
+                                    <i className="fa-solid fa-train"></i> Transfer day
+                                </span>
+                            )}
+                            {travel.segments.length > 0 && (
+                                <p className="mt-1 text-xs text-gray-500">
+                                    <i className="fa-solid fa-route mr-1"></i>
+                                    {formatDuration(travel.totalMinutes)} total travel
+                                    {travel.totalKm > 0 && ` · ${travel.totalKm} km`}
+                                </p>
+                            )}
+                            <p className="mt-1 text-xs text-gray-500">
+                                <i className="fa-solid fa-wallet mr-1"></i>
+                                {shownItinerary.currency} {day.totalEstimatedCost.toLocaleString()} for the day
+                                {budget?.days.some(d => d.day === day.day) && (
+                                    <span className="ml-2 text-red-600 font-semibold" title="Each day's share is the budget spread evenly over the trip">
+                                        <i className="fa-solid fa-arrow-trend-up mr-1"></i>
+                                        {shownItinerary.currency} {budget.days.find(d => d.day === day.day)!.overBy.toLocaleString()} over the day's share
+                                    </span>
+                                )}
+                            </p>
+                        </div>
+                        {!readOnly && (
+                        <div className="flex gap-2">
+                          {onEditStops && (
+                            <button
+                                onClick={() => setAddingStop(addingStop?.day === day.day ? null : { day: day.day, slot: 'Afternoon', placeName: '' })}
+                                className="opacity-0 group-hover/day:opacity-100 text-xs text-green-700 hover:text-green-900 bg-green-50 px-2 py-1 rounded transition-all"
+                            >
+                                <i className="fa-solid fa-plus mr-1"></i> Add Stop
+                            </button>
+                          )}
+                          <button 
+                              onClick={() => handleRegenDay(day.day)}
+                              className="opacity-0 group-hover/day:opacity-100 text-xs text-blue-600 hover:text-blue-800 bg-blue-50 px-2 py-1 rounded transition-all"
                           >
-                              <i className="fa-solid fa-shuffle"></i>
-                              <span className="hidden sm:inline">Swap</span>
+                              <i className="fa-solid fa-arrows-rotate mr-1"></i> Regenerate Day
                           </button>
-                      </div>
-
-                      <img
-                        src={place.imageUrl || getPlaceholderImage(place.type, dayIdx * 10 + placeIdx)}
-                        alt={place.name}
-                        className="w-24 h-24 object-cover rounded-lg flex-shrink-0 bg-gray-200 border-2 border-gray-100"
-                      />
-                      <div className="flex-1 min-w-0 pr-20">
-                        <div className="flex justify-between items-start mb-2">
-                          <h4 className="font-bold text-gray-900 text-base">{place.name}</h4>
-                          <span className="text-sm font-bold bg-gradient-to-r from-green-50 to-emerald-50 px-3 py-1 rounded-lg border-2 border-green-200 text-green-700 whitespace-nowrap ml-2">
-                            {place.estimatedCost}
-                          </span>
                         </div>
-                        <div className="text-sm text-gray-600 mb-2">
-                          {expandedDescriptions[uniqueKey] 
-                            ? place.description
-                            : `${place.description.substring(0, 100)}${place.description.length > 100 ? '...' : ''}`
-                          }
-                          {place.description.length > 100 && (
+                        )}
+                    </div>
+
+                    {/* Add a stop from the discovery candidates */}
+                    {addingStop?.day === day.day && (
+                      <div className="mb-4 flex flex-wrap items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-xl text-sm animate-fade-in">
+                        {candidatesForDay(selectedItinerary, day, candidates || null).length === 0 ? (
+                          <span className="text-gray-500">Every discovered place is already in this plan.</span>
+                        ) : (
+                          <>
+                            <select
+                              value={addingStop.placeName}
+                              onChange={(e) => setAddingStop({ ...addingStop, placeName: e.target.value })}
+                              className="flex-1 min-w-[180px] border border-gray-300 rounded-lg px-2 py-1.5 bg-white"
+                            >
+                              <option value="">Choose a place...</option>
+                              {candidatesForDay(selectedItinerary, day, candidates || null).map(place => (
+                                <option key={place.name} value={place.name}>
+                                  {place.name} ({place.type}{place.estimatedCost ? `, ${place.estimatedCost}` : ''})
+                                </option>
+                              ))}
+                            </select>
+                            <select
+                              value={addingStop.slot}
+                              onChange={(e) => setAddingStop({ ...addingStop, slot: e.target.value as TimeOfDay })}
+                              className="border border-gray-300 rounded-lg px-2 py-1.5 bg-white"
+                            >
+                              {SLOTS.map(slot => <option key={slot} value={slot}>{slot}</option>)}
+                            </select>
                             <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                setExpandedDescriptions(prev => ({
-                                  ...prev,
-                                  [uniqueKey]: !prev[uniqueKey]
-                                }));
-                              }}
-                              className="ml-2 text-blue-600 hover:text-blue-800 font-semibold text-xs"
+                              onClick={handleAddStop}
+                              disabled={!addingStop.placeName || !canEditStops}
+                              className="px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg disabled:opacity-50"
                             >
-                              {expandedDescriptions[uniqueKey] ? 'See less' : 'See more'}
+                              Add
                             </button>
+                          </>
+                        )}
+                        <button onClick={() => setAddingStop(null)} className="text-gray-400 hover:text-gray-600 px-1" title="Cancel">
+                          <i className="fa-solid fa-xmark"></i>
+                        </button>
+                      </div>
+                    )}
+                
+                    <div className="space-y-4">
+                      {stopsForDay(day).map((stop, placeIdx) => {
+                        const place = stop.place;
+                        const timeOfDay = stop.slot;
+                        const uniqueKey = `${day.day}-${place.name}-${placeIdx}`;
+                        const route = travel.segments[placeIdx - 1]?.route;
+                    
+                        return (
+                        <React.Fragment key={uniqueKey}>
+                        {stop.travelMinutesFromPrevious > 0 && (
+                          <div className="flex items-center gap-2 pl-4 text-xs text-gray-400">
+                            <i className={`fa-solid ${route ? TRAVEL_MODE_ICONS[route.mode] : 'fa-route'}`}></i>
+                            ~{stop.travelMinutesFromPrevious} min {route ? `${TRAVEL_MODE_LABELS[route.mode]} · ${route.distanceKm} km` : 'travel'}
+                          </div>
+                        )}
+                        <div
+                            className={`relative bg-white p-4 rounded-xl border-2 hover:shadow-lg transition-all flex gap-4 group/card
+                              ${dropTarget === uniqueKey ? 'border-blue-500 border-dashed' : 'border-gray-200 hover:border-blue-300'}
+                              ${canEditStops ? 'cursor-grab' : ''}
+                              ${draggedStop?.day === day.day && draggedStop.placeName === place.name ? 'opacity-40' : ''}`}
+                            onMouseEnter={() => setHoveredPlace(uniqueKey)}
+                            onMouseLeave={() => setHoveredPlace(null)}
+                            draggable={canEditStops}
+                            onDragStart={(e) => {
+                              e.dataTransfer.effectAllowed = 'move';
+                              e.dataTransfer.setData('text/plain', place.name);
+                              setDraggedStop({ day: day.day, slot: timeOfDay, placeName: place.name });
+                            }}
+                            onDragEnd={() => { setDraggedStop(null); setDropTarget(null); }}
+                            onDragOver={(e) => allowDrop(e, uniqueKey)}
+                            onDrop={(e) => handleDrop(e, day.day, timeOfDay, slotStops(day, timeOfDay).indexOf(place))}
+                        >
+                          {/* Swap Button - Always Visible */}
+                          {!readOnly && (
+                          <div className="absolute top-3 right-3 z-10">
+                              <button
+                                onClick={() => handleSwap(place.name, day.day, timeOfDay)}
+                                className={`
+                                  bg-gradient-to-r from-blue-500 to-indigo-500 text-white
+                                  px-3 py-2 rounded-lg shadow-md hover:shadow-xl
+                                  flex items-center gap-2 font-semibold text-xs
+                                  transition-all transform hover:scale-105
+                                  ${hoveredPlace === uniqueKey ? 'opacity-100' : 'opacity-60 hover:opacity-100'}
+                                `}
+                                title="Swap Activity"
+                              >
+                                  <i className="fa-solid fa-shuffle"></i>
+                                  <span className="hidden sm:inline">Swap</span>
+                              </button>
+                              {onEditStops && (
+                                <button
+                                  onClick={() => editStops({ type: 'remove', at: { day: day.day, slot: timeOfDay, placeName: place.name } })}
+                                  className={`mt-2 w-full bg-white border border-gray-200 text-gray-500 hover:text-red-600 hover:border-red-300 px-3 py-1.5 rounded-lg text-xs transition-all
+                                    ${hoveredPlace === uniqueKey ? 'opacity-100' : 'opacity-0'}`}
+                                  title="Remove Stop"
+                                >
+                                  <i className="fa-solid fa-trash-can"></i>
+                                </button>
+                              )}
+                          </div>
                           )}
-                        </div>
-                        <div className="mt-2 flex items-center gap-2">
-                          <span className={`text-[10px] px-2 py-0.5 rounded-full uppercase tracking-wider
-                            ${place.type === 'Activity' ? 'bg-orange-100 text-orange-700' : 
-                              place.type === 'Food' ? 'bg-green-100 text-green-700' : 
-                              place.type === 'Hotel' ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-700'}
-                          `}>
-                            {place.type}
-                          </span>
-                          {/* Currency Label if different from main itinerary */}
-                          {place.currencyCode && place.currencyCode !== selectedItinerary.currency && (
-                              <span className="text-[10px] px-2 py-0.5 rounded-full bg-blue-100 text-blue-700 uppercase tracking-wider">
-                                {place.currencyCode}
+
+                          <img
+                            src={place.imageUrl || getPlaceholderImage(place.type, dayIdx * 10 + placeIdx)}
+                            alt={place.name}
+                            className="w-24 h-24 object-cover rounded-lg flex-shrink-0 bg-gray-200 border-2 border-gray-100"
+                          />
+                          <div className={`flex-1 min-w-0 ${readOnly ? '' : 'pr-20'}`}>
+                            <div className="flex justify-between items-start mb-2">
+                              <h4 className="font-bold text-gray-900 text-base">{place.name}</h4>
+                              <span className="text-sm font-bold bg-gradient-to-r from-green-50 to-emerald-50 px-3 py-1 rounded-lg border-2 border-green-200 text-green-700 whitespace-nowrap ml-2">
+                                {place.estimatedCost}
                               </span>
-                          )}
+                            </div>
+                            <div className="text-sm text-gray-600 mb-2">
+                              {expandedDescriptions[uniqueKey] 
+                                ? place.description
+                                : `${place.description.substring(0, 100)}${place.description.length > 100 ? '...' : ''}`
+                              }
+                              {place.description.length > 100 && (
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setExpandedDescriptions(prev => ({
+                                      ...prev,
+                                      [uniqueKey]: !prev[uniqueKey]
+                                    }));
+                                  }}
+                                  className="ml-2 text-blue-600 hover:text-blue-800 font-semibold text-xs"
+                                >
+                                  {expandedDescriptions[uniqueKey] ? 'See less' : 'See more'}
+                                </button>
+                              )}
+                            </div>
+                            <div className="mt-2 flex items-center gap-2">
+                              <span className="text-[10px] px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-700 font-mono">
+                                <i className="fa-regular fa-clock mr-1"></i>
+                                {stop.startTime}–{endTime(stop)}
+                              </span>
+                              <span className={`text-[10px] px-2 py-0.5 rounded-full uppercase tracking-wider
+                                ${place.type === 'Activity' ? 'bg-orange-100 text-orange-700' : 
+                                  place.type === 'Food' ? 'bg-green-100 text-green-700' : 
+                                  place.type === 'Hotel' ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-700'}
+                              `}>
+                                {place.type}
+                              </span>
+                              {/* Currency Label if different from main itinerary */}
+                              {place.currencyCode && place.currencyCode !== shownItinerary.currency && (
+                                  <span className="text-[10px] px-2 py-0.5 rounded-full bg-blue-100 text-blue-700 uppercase tracking-wider">
+                                    {place.currencyCode}
+                                  </span>
+                              )}
+                            </div>
+                            {stop.warning && (
+                              <div className="mt-2 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-2 py-1">
+                                <i className="fa-solid fa-door-closed mr-1"></i>
+                                {stop.warning}
+                              </div>
+                            )}
+                            {collaboration && (
+                              <div className="mt-3">
+                                <FeedbackControls collaboration={collaboration} target={{ planId: selectedItinerary.id, place: place.name }} />
+                              </div>
+                            )}
+                          </div>
                         </div>
-                      </div>
+                        </React.Fragment>
+                      )})}
+
+                      {/* Slot drop zones while a stop is being dragged */}
+                      {draggedStop && (
+                        <div className="grid grid-cols-3 gap-2">
+                          {SLOTS.map(slot => {
+                            const zoneKey = `${day.day}-${slot}-zone`;
+                            return (
+                              <div
+                                key={zoneKey}
+                                onDragOver={(e) => allowDrop(e, zoneKey)}
+                                onDrop={(e) => handleDrop(e, day.day, slot)}
+                                className={`py-3 text-center text-xs rounded-lg border-2 border-dashed transition-colors
+                                  ${dropTarget === zoneKey ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-400'}`}
+                              >
+                                <i className="fa-solid fa-arrow-down mr-1"></i> {slot}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
                     </div>
-                  )})}
-                </div>
+                  </div>
+                  );
+                })}
               </div>
             ))}
           </div>
@@ -333,7 +758,11 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itineraries, onConfirm, i
                       <i className="fa-solid fa-route text-blue-600"></i>
                       {selectedItinerary.days.length} Day Route
                   </div>
-                  <p className="text-gray-500">Interactive markers & route</p>
+                  {dayGroups.length > 1 ? (
+                    <p className="text-gray-500">{dayGroups.map(g => g.leg).filter(Boolean).join(' → ')}</p>
+                  ) : (
+                    <p className="text-gray-500">Interactive markers & route</p>
+                  )}
                </div>
            </div>
 
@@ -343,12 +772,18 @@ const ItineraryView: React.FC<ItineraryViewProps> = ({ itineraries, onConfirm, i
               <div className="flex items-start gap-3">
                 <i className="fa-solid fa-circle-info text-yellow-600 mt-1"></i>
                 <div className="text-xs text-yellow-800">
-                  <span className="font-semibold">Note:</span> Prices are estimates in <span className="font-bold">{selectedItinerary.currency}</span>. Availability confirmed at booking.
+                  <span className="font-semibold">Note:</span> Prices are estimates in <span className="font-bold">{shownItinerary.currency}</span>
+                  {shownItinerary.currency !== selectedItinerary.currency && <>, converted from {selectedItinerary.currency}</>}. Availability confirmed at booking.
                 </div>
               </div>
             </div>
 
-            {isConfirmed ? (
+            {readOnly ? null : isStreaming ? (
+              <div className="w-full py-4 bg-gray-100 text-gray-500 rounded-xl font-semibold text-center border-2 border-gray-200">
+                <i className="fa-solid fa-hourglass-half mr-2"></i>
+                Waiting for the full plan...
+              </div>
+            ) : isConfirmed ? (
               <div className="bg-gradient-to-r from-green-50 to-emerald-50 border-2 border-green-300 rounded-xl p-6 text-center shadow-lg">
                  <i className="fa-solid fa-check-circle text-green-600 text-4xl mb-3 animate-bounce"></i>
                  <h3 className="font-bold text-green-800 text-lg">Trip Confirmed!</h3>
@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { Trip, TripSummary } from '../types';
+import { listTrips, getTrip } from '../services/firestore_mock';
+
+interface MyTripsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentTripId?: string;
+  onOpenTrip: (trip: Trip) => void;
+}
+
+type StatusFilter = 'all' | Trip['status'];
+
+const STATUS_FILTERS: StatusFilter[] = ['all', 'draft', 'confirmed', 'booked'];
+
+const STATUS_STYLES: Record<Trip['status'], string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  confirmed: 'bg-green-100 text-green-700',
+  booked: 'bg-blue-100 text-blue-700',
+};
+
+const formatDates = (trip: TripSummary) => {
+  if (trip.startDate) {
+    return trip.endDate && trip.endDate !== trip.startDate ? `${trip.startDate} → ${trip.endDate}` : trip.startDate;
+  }
+  return `${trip.durationDays} day${trip.durationDays === 1 ? '' : 's'}, dates flexible`;
+};
+
+const matchesSearch = (trip: TripSummary, query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [trip.destination, trip.status, trip.startDate || '', ...trip.planTitles]
+    .some(text => text.toLowerCase().includes(q));
+};
+
+const MyTripsPanel: React.FC<MyTripsPanelProps> = ({ isOpen, onClose, currentTripId, onOpenTrip }) => {
+  const [trips, setTrips] = useState<TripSummary[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    setError(null);
+    listTrips()
+      .then(setTrips)
+      .catch(err => setError(err.message))
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const visible = trips.filter(trip => (statusFilter === 'all' || trip.status === statusFilter) && matchesSearch(trip, search));
+  const countFor = (filter: StatusFilter) => filter === 'all' ? trips.length : trips.filter(t => t.status === filter).length;
+
+  const handleOpen = async (id: string) => {
+    setOpeningId(id);
+    setError(null);
+    try {
+      const trip = await getTrip(id);
+      if (!trip) throw new Error('This trip no longer exists.');
+      onOpenTrip(trip);
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white w-full max-w-3xl rounded-2xl shadow-2xl overflow-hidden m-4 flex flex-col max-h-[90vh]">
+        {/* Header */}
+        <div className="bg-gray-900 text-white p-6 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold">My Trips</h2>
+            <p className="text-gray-400 text-sm">Reopen a saved trip to keep refining it</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition">
+            <i className="fa-solid fa-xmark text-xl"></i>
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="p-4 border-b border-gray-200 space-y-3">
+          <div className="relative">
+            <i className="fa-solid fa-magnifying-glass absolute left-3 top-1/2 -translate-y-1/2 text-gray-400"></i>
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by destination or plan..."
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            {STATUS_FILTERS.map(filter => (
+              <button
+                key={filter}
+                onClick={() => setStatusFilter(filter)}
+                className={`px-3 py-1 rounded-full text-xs font-semibold capitalize border transition-all ${
+                  statusFilter === filter ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-600 border-gray-300 hover:border-blue-400'
+                }`}
+              >
+                {filter} ({countFor(filter)})
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mx-4 mt-4 px-4 py-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <i className="fa-solid fa-triangle-exclamation mr-2"></i>{error}
+          </div>
+        )}
+
+        {/* Trip List */}
+        <div className="p-4 overflow-y-auto space-y-3">
+          {isLoading && <p className="text-sm text-gray-400"><i className="fa-solid fa-circle-notch fa-spin mr-2"></i>Loading trips...</p>}
+          {!isLoading && visible.length === 0 && (
+            <div className="text-center py-10 text-gray-400">
+              <i className="fa-solid fa-suitcase-rolling text-3xl mb-3 opacity-40"></i>
+              <p className="text-sm">{trips.length === 0 ? 'No saved trips yet. Confirm a plan to save it here.' : 'No trips match your filters.'}</p>
+            </div>
+          )}
+          {visible.map(trip => (
+            <div
+              key={trip.id}
+              className={`flex items-center justify-between gap-4 p-4 rounded-xl border-2 transition-all ${
+                trip.id === currentTripId ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:border-blue-300'
+              }`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <h4 className="font-bold text-gray-900 truncate">{trip.destination}</h4>
+                  <span className={`text-[10px] px-2 py-0.5 rounded-full uppercase tracking-wider ${STATUS_STYLES[trip.status]}`}>
+                    {trip.status}
+                  </span>
+                  <span className="text-[10px] px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 font-mono">v{trip.version}</span>
+                </div>
+                <div className="text-xs text-gray-500 flex flex-wrap gap-x-4 gap-y-1">
+                  <span><i className="fa-solid fa-calendar-days mr-1"></i>{formatDates(trip)}</span>
+                  {trip.totalEstimatedCost !== null && (
+                    <span><i className="fa-solid fa-wallet mr-1"></i>{trip.currency} {trip.totalEstimatedCost.toLocaleString()}</span>
+                  )}
+                  <span><i className="fa-regular fa-clock mr-1"></i>Updated {new Date(trip.updatedAt).toLocaleDateString()}</span>
+                </div>
+              </div>
+              <button
+                onClick={() => handleOpen(trip.id)}
+                disabled={openingId !== null || trip.id === currentTripId}
+                className="flex-shrink-0 px-4 py-2 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-lg font-semibold text-sm shadow-md hover:shadow-lg disabled:opacity-50"
+              >
+                {openingId === trip.id
+                  ? <i className="fa-solid fa-circle-notch fa-spin"></i>
+                  : trip.id === currentTripId ? 'Open' : 'Reopen'}
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MyTripsPanel;
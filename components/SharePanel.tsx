@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { Itinerary, TripShare } from '../types';
+import { getTripShare, shareTrip, revokeTripShare, shareUrl } from '../services/firestore_mock';
+
+interface SharePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tripId: string;
+  plans: Itinerary[];
+  planId: string; // The plan being viewed when Share was clicked
+}
+
+const SharePanel: React.FC<SharePanelProps> = ({ isOpen, onClose, tripId, plans, planId }) => {
+  const [share, setShare] = useState<TripShare | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    setError(null);
+    setCopied(false);
+    getTripShare(tripId)
+      .then(setShare)
+      .catch(err => setError(err.message))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, tripId]);
+
+  if (!isOpen) return null;
+
+  const planTitle = (id: string | null) => plans.find(p => p.id === id)?.title || 'the first plan';
+  const url = share ? shareUrl(share.token) : '';
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleShare = () => run(async () => {
+    setShare(await shareTrip(tripId, planId));
+  });
+
+  const handleRevoke = () => run(async () => {
+    await revokeTripShare(tripId);
+    setShare(null);
+    setCopied(false);
+  });
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      setError('Could not copy automatically. Select the link and copy it.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden m-4 flex flex-col">
+        {/* Header */}
+        <div className="bg-gray-900 text-white p-6 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold">Share Trip</h2>
+            <p className="text-gray-400 text-sm">Anyone with the link can view the plan; signed-in people can vote and comment</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition">
+            <i className="fa-solid fa-xmark text-xl"></i>
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="px-4 py-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              <i className="fa-solid fa-triangle-exclamation mr-2"></i>{error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <p className="text-sm text-gray-400"><i className="fa-solid fa-circle-notch fa-spin mr-2"></i>Loading...</p>
+          ) : share ? (
+            <>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 border border-gray-300 rounded-lg p-2 text-sm font-mono text-gray-700 bg-gray-50"
+                />
+                <button
+                  onClick={handleCopy}
+                  className="px-4 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold rounded-lg shadow-sm transition-all"
+                >
+                  <i className={`fa-solid ${copied ? 'fa-check' : 'fa-copy'} mr-1`}></i>
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+              <p className="text-xs text-gray-500">
+                Shows <span className="font-semibold">{planTitle(share.planId)}</span> as it is in the latest saved version.
+              </p>
+              {share.planId !== planId && (
+                <button
+                  onClick={handleShare}
+                  disabled={isSaving}
+                  className="text-sm text-blue-600 hover:text-blue-800 font-semibold disabled:opacity-50"
+                >
+                  <i className="fa-solid fa-arrows-rotate mr-1"></i> Show {planTitle(planId)} instead
+                </button>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">
+              Create a read-only link to <span className="font-semibold">{planTitle(planId)}</span> to send to your travel companions.
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-gray-100 bg-gray-50 flex justify-end gap-3">
+          {share ? (
+            <button
+              onClick={handleRevoke}
+              disabled={isSaving}
+              className="px-4 py-2 text-red-600 hover:text-red-700 text-sm font-medium disabled:opacity-50"
+            >
+              <i className="fa-solid fa-link-slash mr-1"></i> Revoke Link
+            </button>
+          ) : (
+            <button
+              onClick={handleShare}
+              disabled={isSaving || isLoading}
+              className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold rounded-lg shadow-sm transition-all disabled:opacity-50"
+            >
+              <i className="fa-solid fa-link mr-1"></i> Create Link
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharePanel;
@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { SharedTrip, TripFeedback, FeedbackTarget, UserProfile } from '../types';
+import { getSharedTrip, getUserProfile, getTripFeedback, addTripComment, voteOnTrip, deleteTripComment } from '../services/firestore_mock';
+import ItineraryView from './ItineraryView';
+
+interface SharedTripViewProps {
+  token: string;
+}
+
+const formatDates = (trip: SharedTrip) => {
+  if (!trip.startDate) return `${trip.durationDays} days`;
+  return trip.endDate && trip.endDate !== trip.startDate ? `${trip.startDate} → ${trip.endDate}` : trip.startDate;
+};
+
+/**
+ * Read-only page behind a share link (/share/<token>): the shared plan without chat or editing.
+ * Signed-in visitors can vote and comment on it.
+ */
+const SharedTripView: React.FC<SharedTripViewProps> = ({ token }) => {
+  const [trip, setTrip] = useState<SharedTrip | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<TripFeedback | null>(null);
+  const [viewer, setViewer] = useState<UserProfile | null>(null);
+  const [feedbackError, setFeedbackError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSharedTrip(token)
+      .then(shared => {
+        if (!shared || !shared.itinerary) setError('This link is invalid or has been revoked.');
+        setTrip(shared);
+        if (shared?.itinerary) return getTripFeedback({ shareToken: token }).then(setFeedback);
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setIsLoading(false));
+    getUserProfile().then(setViewer);
+  }, [token]);
+
+  const updateFeedback = async (change: () => Promise<TripFeedback>) => {
+    setFeedbackError(null);
+    try {
+      setFeedback(await change());
+    } catch (err: any) {
+      setFeedbackError(err.message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Navigation */}
+      <nav className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <a href="/" className="flex items-center gap-2">
+              <i className="fa-solid fa-paper-plane text-blue-600 text-xl"></i>
+              <span className="font-bold text-xl tracking-tight text-gray-900">VibeTrip<span className="text-blue-600">.AI</span></span>
+            </a>
+            <div className="flex items-center">
+              <span className="text-sm text-gray-500 bg-gray-50 px-3 py-1.5 rounded-full border border-gray-200">
+                <i className="fa-solid fa-eye mr-2"></i>Shared trip · view only
+              </span>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="flex-1 w-full px-4 sm:px-6 lg:px-8 py-6">
+        <div className="max-w-[1400px] mx-auto">
+          {isLoading ? (
+            <p className="text-center text-gray-400 py-20"><i className="fa-solid fa-circle-notch fa-spin mr-2"></i>Loading trip...</p>
+          ) : error || !trip?.itinerary ? (
+            <div className="min-h-[400px] flex flex-col items-center justify-center bg-white rounded-2xl border border-dashed border-gray-300 text-gray-400">
+              <i className="fa-solid fa-link-slash text-3xl opacity-40 mb-4"></i>
+              <h3 className="text-lg font-medium text-gray-900">Trip not available</h3>
+              <p className="max-w-xs text-center mt-2">{error}</p>
+            </div>
+          ) : (
+            <>
+              <div className="mb-6 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-600">
+                <h1 className="text-2xl font-bold text-gray-900">{trip.destination}</h1>
+                <span><i className="fa-solid fa-calendar-days text-blue-600 mr-1"></i>{formatDates(trip)}</span>
+                {trip.travelers && (
+                  <span>
+                    <i className="fa-solid fa-users text-blue-600 mr-1"></i>
+                    {trip.travelers.adults} Adults, {trip.travelers.children} Children
+                  </span>
+                )}
+                <span className="text-xs text-gray-400">Updated {new Date(trip.updatedAt).toLocaleDateString()}</span>
+              </div>
+              {feedbackError && (
+                <div className="mb-4 px-4 py-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                  <i className="fa-solid fa-triangle-exclamation mr-2"></i>{feedbackError}
+                </div>
+              )}
+              <ItineraryView
+                itineraries={[trip.itinerary]}
+                readOnly
+                homeCurrency={viewer?.preferences.homeCurrency}
+                collaboration={feedback ? {
+                  feedback,
+                  currentUserId: viewer?.id,
+                  onVote: (target: FeedbackTarget, value: 1 | -1 | 0) => updateFeedback(() => voteOnTrip({ shareToken: token }, target, value)),
+                  onComment: (target: FeedbackTarget, text: string) => updateFeedback(() => addTripComment({ shareToken: token }, target, text)),
+                  onDeleteComment: (commentId: string) => updateFeedback(() => deleteTripComment({ shareToken: token }, commentId)),
+                } : undefined}
+              />
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SharedTripView;
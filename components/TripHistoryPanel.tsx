@@ -0,0 +1,215 @@
+import React, { useState, useEffect } from 'react';
+import { Trip } from '../types';
+import { getTripHistory, rollbackTrip } from '../services/firestore_mock';
+import { diffTrips, isEmptyDiff, TripDiff } from '../services/tripDiff';
+
+interface TripHistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tripId: string;
+  latestVersion?: number; // Reloads the list when the trip is saved again
+  onRollback: (trip: Trip) => void;
+}
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString();
+
+const DiffView: React.FC<{ diff: TripDiff }> = ({ diff }) => {
+  if (isEmptyDiff(diff)) {
+    return <p className="text-sm text-gray-500">No changes to the trip or its plans.</p>;
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      {(diff.statusChange || diff.intentChanges.length > 0) && (
+        <div>
+          <h5 className="text-xs font-bold text-gray-500 uppercase mb-2">Trip details</h5>
+          <ul className="space-y-1">
+            {[...(diff.statusChange ? [diff.statusChange] : []), ...diff.intentChanges].map(change => (
+              <li key={change.field} className="flex flex-wrap gap-1">
+                <span className="font-semibold text-gray-700 capitalize">{change.field}:</span>
+                <span className="text-red-600 line-through">{change.before}</span>
+                <i className="fa-solid fa-arrow-right text-gray-400 text-xs mt-1"></i>
+                <span className="text-green-700">{change.after}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {(diff.plansAdded.length > 0 || diff.plansRemoved.length > 0) && (
+        <div className="space-y-1">
+          {diff.plansAdded.map(title => (
+            <p key={`added-${title}`} className="text-green-700"><i className="fa-solid fa-plus mr-1"></i> New plan: {title}</p>
+          ))}
+          {diff.plansRemoved.map(title => (
+            <p key={`removed-${title}`} className="text-red-600"><i className="fa-solid fa-minus mr-1"></i> Dropped plan: {title}</p>
+          ))}
+        </div>
+      )}
+
+      {diff.plans.map(plan => (
+        <div key={plan.planId} className="border border-gray-200 rounded-lg p-3">
+          <div className="flex justify-between items-center mb-2">
+            <span className="font-bold text-gray-800">{plan.title}</span>
+            {plan.costDelta !== 0 && (
+              <span className={`text-xs font-mono font-bold ${plan.costDelta > 0 ? 'text-red-600' : 'text-green-700'}`}>
+                {plan.costDelta > 0 ? '+' : '−'}{plan.currency} {Math.abs(plan.costDelta).toLocaleString()}
+              </span>
+            )}
+          </div>
+          {plan.days.map(day => (
+            <div key={day.day} className="mb-2 last:mb-0">
+              <div className="text-xs font-semibold text-gray-500 mb-1">Day {day.day}</div>
+              <ul className="space-y-0.5 pl-2">
+                {day.added.map(name => (
+                  <li key={`a-${name}`} className="text-green-700"><i className="fa-solid fa-plus mr-1 text-xs"></i>{name}</li>
+                ))}
+                {day.removed.map(name => (
+                  <li key={`r-${name}`} className="text-red-600"><i className="fa-solid fa-minus mr-1 text-xs"></i>{name}</li>
+                ))}
+                {day.moved.map(move => (
+                  <li key={`m-${move.place}`} className="text-blue-700">
+                    <i className="fa-solid fa-arrows-up-down mr-1 text-xs"></i>
+                    {move.place} <span className="text-gray-500">(from Day {move.from.day} {move.from.slot.toLowerCase()} to {move.to.slot.toLowerCase()})</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const TripHistoryPanel: React.FC<TripHistoryPanelProps> = ({ isOpen, onClose, tripId, latestVersion, onRollback }) => {
+  const [versions, setVersions] = useState<Trip[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    setError(null);
+    getTripHistory(tripId)
+      .then(history => {
+        setVersions(history);
+        setSelectedVersion(history.length ? history[history.length - 1].version : null);
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setIsLoading(false));
+  }, [isOpen, tripId, latestVersion]);
+
+  if (!isOpen) return null;
+
+  const latest = versions[versions.length - 1];
+  const selectedIdx = versions.findIndex(v => v.version === selectedVersion);
+  const selected = versions[selectedIdx];
+  const previous = selectedIdx > 0 ? versions[selectedIdx - 1] : null;
+
+  const handleRollback = async (version: number) => {
+    setIsRollingBack(true);
+    setError(null);
+    try {
+      const trip = await rollbackTrip(tripId, version);
+      setVersions(prev => [...prev, trip]);
+      setSelectedVersion(trip.version);
+      onRollback(trip);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white w-full max-w-4xl rounded-2xl shadow-2xl overflow-hidden m-4 flex flex-col max-h-[90vh]">
+        {/* Header */}
+        <div className="bg-gray-900 text-white p-6 flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold">Trip History</h2>
+            <p className="text-gray-400 text-sm">Every saved version of this trip and what changed</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition">
+            <i className="fa-solid fa-xmark text-xl"></i>
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 px-4 py-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <i className="fa-solid fa-triangle-exclamation mr-2"></i>{error}
+          </div>
+        )}
+
+        {/* Body */}
+        <div className="flex flex-1 min-h-0">
+          {/* Version list */}
+          <div className="w-1/3 border-r border-gray-200 overflow-y-auto p-4 space-y-2">
+            {isLoading && <p className="text-sm text-gray-400"><i className="fa-solid fa-circle-notch fa-spin mr-2"></i>Loading...</p>}
+            {[...versions].reverse().map(version => (
+              <button
+                key={version.version}
+                onClick={() => setSelectedVersion(version.version)}
+                className={`w-full text-left px-3 py-2 rounded-lg border-2 transition-all ${
+                  version.version === selectedVersion ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-blue-300'
+                }`}
+              >
+                <div className="flex justify-between items-center">
+                  <span className="font-bold text-gray-800">v{version.version}</span>
+                  {version === latest && (
+                    <span className="text-[10px] px-2 py-0.5 rounded-full bg-green-100 text-green-700 uppercase tracking-wider">Current</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">{formatTimestamp(version.updatedAt)}</div>
+                <div className="text-xs text-gray-500 capitalize">{version.status}</div>
+              </button>
+            ))}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 overflow-y-auto p-6">
+            {selected ? (
+              <>
+                <div className="flex justify-between items-center mb-4">
+                  <h4 className="font-bold text-gray-800">
+                    {previous ? `Changes from v${previous.version} to v${selected.version}` : `v${selected.version} — first version`}
+                  </h4>
+                  {selected !== latest && (
+                    <button
+                      onClick={() => handleRollback(selected.version)}
+                      disabled={isRollingBack}
+                      className="px-4 py-2 bg-gradient-to-r from-amber-500 to-orange-600 text-white rounded-lg font-semibold text-sm shadow-md hover:shadow-lg disabled:opacity-50"
+                    >
+                      <i className={`fa-solid ${isRollingBack ? 'fa-circle-notch fa-spin' : 'fa-clock-rotate-left'} mr-2`}></i>
+                      Restore v{selected.version}
+                    </button>
+                  )}
+                </div>
+                {previous ? (
+                  <DiffView diff={diffTrips(previous, selected)} />
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    {selected.optimizedPlans.length} plan{selected.optimizedPlans.length === 1 ? '' : 's'} for {selected.intent.destination}.
+                  </p>
+                )}
+                {selected !== latest && latest && (
+                  <div className="mt-6 pt-4 border-t border-gray-200">
+                    <h4 className="font-bold text-gray-800 mb-4">Restoring would change the current version (v{latest.version}):</h4>
+                    <DiffView diff={diffTrips(latest, selected)} />
+                  </div>
+                )}
+              </>
+            ) : (
+              !isLoading && <p className="text-sm text-gray-500">No saved versions yet.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TripHistoryPanel;
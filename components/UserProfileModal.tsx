@@ -1,14 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { UserProfile, UserPreferences } from '../types';
+import { DISPLAY_CURRENCIES } from '../services/displayCurrency';
 
 interface UserProfileModalProps {
   isOpen: boolean;
   onClose: () => void;
   profile: UserProfile;
   onSave: (updatedProfile: UserProfile) => void;
+  onSignOut: () => void;
 }
 
-const UserProfileModal: React.FC<UserProfileModalProps> = ({ isOpen, onClose, profile, onSave }) => {
+const UserProfileModal: React.FC<UserProfileModalProps> = ({ isOpen, onClose, profile, onSave, onSignOut }) => {
   const [formData, setFormData] = useState<UserProfile>(profile);
   const [newAccess, setNewAccess] = useState('');
   const [newDiet, setNewDiet] = useState('');
@@ -99,6 +101,18 @@ const UserProfileModal: React.FC<UserProfileModalProps> = ({ isOpen, onClose, pr
                 <option value="Luxury">Luxury ($$$)</option>
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Home Currency</label>
+              <select 
+                value={formData.preferences.homeCurrency || 'USD'}
+                onChange={(e) => handleChange('homeCurrency', e.target.value)}
+                className="w-full border border-gray-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                {DISPLAY_CURRENCIES.map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
           </div>
 
           {/* Section: Accessibility */}
@@ -172,7 +186,7 @@ const UserProfileModal: React.FC<UserProfileModalProps> = ({ isOpen, onClose, pr
           {/* Stats / History */}
           <div className="bg-gray-50 rounded-lg p-3 border border-gray-100">
              <div className="flex justify-between items-center text-xs text-gray-500">
-                <span>User ID: <span className="font-mono">{formData.id}</span></span>
+                <span>Signed in as <span className="font-mono">{formData.email}</span></span>
                 <span>Trips Planned: <span className="font-bold">{formData.tripHistory.length}</span></span>
              </div>
           </div>
@@ -181,6 +195,9 @@ const UserProfileModal: React.FC<UserProfileModalProps> = ({ isOpen, onClose, pr
 
         {/* Footer */}
         <div className="p-4 border-t border-gray-100 bg-gray-50 flex justify-end gap-3">
+          <button onClick={onSignOut} className="mr-auto px-4 py-2 text-red-600 hover:text-red-700 text-sm font-medium">
+            <i className="fa-solid fa-right-from-bracket mr-1"></i> Sign Out
+          </button>
           <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800 text-sm font-medium">Cancel</button>
           <button onClick={handleSave} className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold rounded-lg shadow-sm transition-all">
             Save Profile
@@ -1,6 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import SharedTripView from './components/SharedTripView';
 import ErrorBoundary from './components/ErrorBoundary';
 import './index.css';
 
@@ -9,11 +10,14 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Share links (/share/<token>) open the read-only view instead of the planner
+const shareMatch = window.location.pathname.match(/^\/share\/([A-Za-z0-9_-]+)\/?$/);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <ErrorBoundary>
-      <App />
+      {shareMatch ? <SharedTripView token={shareMatch[1]} /> : <App />}
     </ErrorBoundary>
   </React.StrictMode>
 );
\ No newline at end of file
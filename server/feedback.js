@@ -0,0 +1,72 @@
+/**
+ * Trip Feedback
+ *
+ * Comments and up/down votes from the people planning a trip together. Feedback targets
+ * a whole plan (variant) or a single place in it, matched by name like the trip diff does.
+ * It is stored next to the trip's versions and is not versioned itself.
+ */
+
+import crypto from 'crypto';
+
+export const MAX_COMMENT_LENGTH = 1000;
+
+export const emptyFeedback = () => ({ comments: [], votes: [] });
+
+const sameTarget = (a, b) =>
+  a.planId === b.planId && (a.place || '').trim().toLowerCase() === (b.place || '').trim().toLowerCase();
+
+const planPlaces = (plan) =>
+  (plan.days || []).flatMap(day => [...(day.morning || []), ...(day.afternoon || []), ...(day.evening || [])]);
+
+/**
+ * The target with the place spelled as in the plan, or null if the trip has no such plan/place.
+ */
+export const resolveTarget = (trip, { planId, place }) => {
+  const plan = (trip.optimizedPlans || []).find(p => p.id === planId);
+  if (!plan) return null;
+  if (!place) return { planId, place: null };
+  const wanted = place.trim().toLowerCase();
+  const match = planPlaces(plan).find(p => p.name.trim().toLowerCase() === wanted);
+  return match ? { planId, place: match.name } : null;
+};
+
+/**
+ * Only the feedback on the given plans, e.g. the one plan a share link shows.
+ */
+export const feedbackForPlans = (feedback, plans) => {
+  const planIds = new Set(plans.map(plan => plan.id));
+  return {
+    ...feedback,
+    comments: feedback.comments.filter(c => planIds.has(c.planId)),
+    votes: feedback.votes.filter(v => planIds.has(v.planId)),
+  };
+};
+
+export const withComment = (feedback, { planId, place }, text, user) => ({
+  ...feedback,
+  comments: [...feedback.comments, {
+    id: `c_${crypto.randomUUID().replace(/-/g, '').slice(0, 16)}`,
+    planId,
+    place,
+    userId: user.id,
+    userName: user.name,
+    text: text.trim(),
+    createdAt: new Date().toISOString(),
+  }],
+});
+
+/**
+ * Records the user's vote on the target, replacing an earlier one. A value of 0 clears it.
+ */
+export const withVote = (feedback, target, value, user) => {
+  const votes = feedback.votes.filter(v => !(v.userId === user.id && sameTarget(v, target)));
+  if (value !== 0) {
+    votes.push({ ...target, userId: user.id, userName: user.name, value });
+  }
+  return { ...feedback, votes };
+};
+
+export const withoutComment = (feedback, commentId) => ({
+  ...feedback,
+  comments: feedback.comments.filter(c => c.id !== commentId),
+});
@@ -1,24 +1,44 @@
 import express from 'express';
+import path from 'path';
+import { fileURLToPath } from 'url';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { GoogleGenAI } from '@google/genai';
-import { globalRateLimiter, geminiRateLimiter, createRateLimitMiddleware } from './rateLimiter.js';
-import { validateGeminiRequest, sanitizeInput, validateRequestSize, validateContentType, validateAdminRequest } from './validation.js';
-
-// Load environment variables from .env (GEMINI_API_KEY is required)
+import { globalRateLimiter, geminiRateLimiter, authRateLimiter, createRateLimitMiddleware } from './rateLimiter.js';
+import { createLLMRequestValidator, sanitizeInput, validateRequestSize, validateContentType, validateAdminRequest, validateTripRequest, createSessionAuth, validateRegisterRequest, validateLoginRequest, validateProfileRequest, validateCommentRequest, validateVoteRequest } from './validation.js';
+import { createProviderRegistry } from './providers/index.js';
+import { TripStore, TripNotFoundError, toSharedTrip } from './tripStore.js';
+import { UserStore } from './userStore.js';
+import { feedbackForPlans, resolveTarget, withComment, withVote, withoutComment } from './feedback.js';
+
+// Load environment variables from .env (GEMINI_API_KEY and/or LLM_BASE_URL are required)
 dotenv.config();
 
 const PORT = process.env.PORT || 5000;
-const apiKey = process.env.GEMINI_API_KEY;
 
-if (!apiKey) {
-  console.error('[Gemini Backend] Missing GEMINI_API_KEY in environment.');
+console.log('[Gemini Backend] Initializing LLM providers...');
+const providers = createProviderRegistry();
+
+if (providers.names().length === 0) {
+  console.error('[Gemini Backend] No LLM provider configured. Set GEMINI_API_KEY or LLM_BASE_URL in environment, or LLM_MODE=fake to serve fixtures.');
   process.exit(1);
 }
 
-console.log('[Gemini Backend] Initializing GoogleGenAI client...');
-const client = new GoogleGenAI({ apiKey });
-console.log('[Gemini Backend] Client initialized successfully');
+if (!providers.get()) {
+  console.error(`[Gemini Backend] LLM_PROVIDER "${providers.defaultName}" is not configured.`);
+  process.exit(1);
+}
+
+console.log(`[Gemini Backend] Providers ready: ${providers.names().join(', ')} (default: ${providers.defaultName})`);
+if (providers.mode !== 'live') {
+  console.log(`[Gemini Backend] LLM_MODE=${providers.mode}, fixtures: ${providers.fixturesDir}`);
+}
+
+// Saved trips and their versions (see tripStore.js), accounts and sessions (see userStore.js)
+const DATA_DIR = process.env.DATA_DIR || path.join(path.dirname(fileURLToPath(import.meta.url)), 'data');
+const tripStore = new TripStore(DATA_DIR);
+const userStore = new UserStore(DATA_DIR);
+const requireAuth = createSessionAuth(userStore);
+console.log(`[Gemini Backend] Trip and user store: ${DATA_DIR}`);
 
 const app = express();
 
@@ -29,7 +49,8 @@ app.use((req, res, next) => {
 });
 
 app.use(cors());
-app.use(express.json());
+// Trips carry full discovery results and plans, which exceed the default 100KB
+app.use(express.json({ limit: '2mb' }));
 
 // Apply request validation
 app.use(validateRequestSize(2 * 1024 * 1024)); // 2MB max
@@ -96,7 +117,10 @@ app.get('/api/health', (_req, res) => {
       service: 'vibetrip-ai-backend',
       version: '1.0.0',
       checks: {
-        gemini: apiKey ? 'configured' : 'missing',
+        gemini: providers.get('gemini') ? 'configured' : 'missing',
+        llmProviders: providers.names(),
+        defaultProvider: providers.defaultName,
+        llmMode: providers.mode,
         memory: {
           used: Math.round(process.memoryUsage().heapUsed / 1024 / 1024),
           total: Math.round(process.memoryUsage().heapTotal / 1024 / 1024),
@@ -115,20 +139,97 @@ app.get('/api/health', (_req, res) => {
   }
 });
 
-// Apply stricter rate limiting and validation for Gemini endpoint
-app.post('/api/gemini/generate',
-  createRateLimitMiddleware(geminiRateLimiter),
-  validateGeminiRequest,
-  async (req, res) => {
+// --- LLM ENDPOINTS ---
+// /api/llm/* accept an optional `provider` in the body (defaults to LLM_PROVIDER).
+// /api/gemini/* are kept for backwards compatibility and always use Gemini.
+
+const resolveProvider = (req) => {
+  const name = req.path.startsWith('/api/gemini/') ? 'gemini' : req.body?.provider;
+  return providers.get(name);
+};
+
+const recordUsage = (usage) => {
+  if (!usage) return;
+  metrics.promptTokens += usage.promptTokens;
+  metrics.completionTokens += usage.completionTokens;
+};
+
+const sendProviderError = (res, err, requestId, provider) => {
+  metrics.geminiErrors++;
+
+  console.log(JSON.stringify({
+    level: 'error',
+    type: 'llm_error',
+    requestId,
+    provider,
+    error: err.message,
+    stack: err?.stack,
+    timestamp: new Date().toISOString()
+  }));
+
+  // Extract detailed error information from provider API errors
+  let status = 500;
+  let errorResponse = { error: 'LLM backend error' };
+
+  if (err && typeof err === 'object') {
+    // Check if it's an API error with detailed structure
+    if (err.status) {
+      status = err.status;
+    }
+
+    // Forward the entire error object if it has detailed error info
+    if (err.message) {
+      errorResponse.error = err.message;
+    }
+
+    // If there's a nested error object (common in API errors), forward it
+    if (err.error) {
+      errorResponse = err.error;
+    }
+  }
+
+  console.error('[Gemini Backend] Sending error response:', { status, errorResponse });
+  res.status(status).json(errorResponse);
+};
+
+// Aborts the provider call once the client disconnects (e.g. the user pressed Cancel),
+// so an abandoned request stops using model quota
+const abortOnDisconnect = (res) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+};
+
+// A cancelled call is not a provider failure, and there is nobody left to answer
+const logCancelled = (requestId, provider, startTime) => {
+  metrics.geminiCancelled++;
+
+  console.log(JSON.stringify({
+    level: 'info',
+    type: 'llm_cancelled',
+    requestId,
+    provider,
+    duration: Date.now() - startTime,
+    timestamp: new Date().toISOString()
+  }));
+};
+
+const handleGenerate = async (req, res) => {
   const requestId = req.requestId || 'unknown';
+  const provider = resolveProvider(req);
+  const signal = abortOnDisconnect(res);
+  const startTime = Date.now();
 
   try {
     const { model, contents, config } = req.body || {};
 
     console.log(JSON.stringify({
       level: 'info',
-      type: 'gemini_request',
+      type: 'llm_request',
       requestId,
+      provider: provider.name,
       model,
       hasContents: Boolean(contents),
       hasConfig: Boolean(config),
@@ -139,67 +240,423 @@ app.post('/api/gemini/generate',
       return res.status(400).json({ error: 'model and contents are required' });
     }
 
-    const startTime = Date.now();
     metrics.geminiCalls++;
 
-    const result = await client.models.generateContent({ model, contents, config });
+    const { text, usage } = await provider.generate({ model, contents, config, signal });
     const duration = Date.now() - startTime;
     metrics.totalDuration += duration;
+    recordUsage(usage);
 
     console.log(JSON.stringify({
       level: 'info',
-      type: 'gemini_response',
+      type: 'llm_response',
       requestId,
+      provider: provider.name,
       model,
-      hasText: Boolean(result.text),
+      hasText: Boolean(text),
+      usage,
       duration,
       timestamp: new Date().toISOString()
     }));
 
-    const text = result.text;
-
     if (!text) {
-      return res.status(500).json({ error: 'Empty response from Gemini' });
+      return res.status(500).json({ error: `Empty response from ${provider.name}` });
     }
 
-    res.json({ text });
+    res.json({ text, usage, provider: provider.name });
   } catch (err) {
+    if (signal.aborted) {
+      return logCancelled(requestId, provider.name, startTime);
+    }
+    sendProviderError(res, err, requestId, provider.name);
+  }
+};
+
+// Streaming variant: forwards provider chunks to the client as Server-Sent Events.
+// Events: `chunk` ({ text }), `done` ({ chunks, usage }), `error` ({ error, status })
+const handleStream = async (req, res) => {
+  const requestId = req.requestId || 'unknown';
+  const provider = resolveProvider(req);
+  const { model, contents, config } = req.body || {};
+  const signal = abortOnDisconnect(res);
+
+  console.log(JSON.stringify({
+    level: 'info',
+    type: 'llm_stream_request',
+    requestId,
+    provider: provider.name,
+    model,
+    timestamp: new Date().toISOString()
+  }));
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.flushHeaders();
+
+  const sendEvent = (event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const startTime = Date.now();
+  metrics.geminiCalls++;
+  let chunks = 0;
+  let usage = null;
+
+  try {
+    for await (const part of provider.stream({ model, contents, config, signal })) {
+      signal.throwIfAborted();
+      if (part.usage) {
+        usage = part.usage;
+      } else if (part.text) {
+        chunks++;
+        sendEvent('chunk', { text: part.text });
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    metrics.totalDuration += duration;
+    recordUsage(usage);
+
+    console.log(JSON.stringify({
+      level: 'info',
+      type: 'llm_stream_response',
+      requestId,
+      provider: provider.name,
+      model,
+      chunks,
+      usage,
+      duration,
+      timestamp: new Date().toISOString()
+    }));
+
+    if (chunks === 0) {
+      sendEvent('error', { error: `Empty response from ${provider.name}`, status: 500 });
+    } else {
+      sendEvent('done', { chunks, usage });
+    }
+  } catch (err) {
+    if (signal.aborted) {
+      return logCancelled(requestId, provider.name, startTime);
+    }
     metrics.geminiErrors++;
 
     console.log(JSON.stringify({
       level: 'error',
-      type: 'gemini_error',
+      type: 'llm_stream_error',
       requestId,
-      error: err.message,
+      provider: provider.name,
+      error: err?.message,
       stack: err?.stack,
       timestamp: new Date().toISOString()
     }));
 
-    // Extract detailed error information from Gemini API errors
-    let status = 500;
-    let errorResponse = { error: 'Gemini backend error' };
+    // Headers are already sent, so errors travel as an SSE event
+    sendEvent('error', {
+      error: err?.error?.message || err?.message || 'LLM backend error',
+      status: err?.status || 500
+    });
+  } finally {
+    res.end();
+  }
+};
+
+// Apply stricter rate limiting and validation for LLM endpoints
+const validateLLMRequest = createLLMRequestValidator(resolveProvider);
+
+app.post(['/api/llm/generate', '/api/gemini/generate'],
+  createRateLimitMiddleware(geminiRateLimiter),
+  validateLLMRequest,
+  handleGenerate);
 
-    if (err && typeof err === 'object') {
-      // Check if it's a Gemini API error with detailed structure
-      if (err.status) {
-        status = err.status;
+app.post(['/api/llm/stream', '/api/gemini/stream'],
+  createRateLimitMiddleware(geminiRateLimiter),
+  validateLLMRequest,
+  handleStream);
+
+// --- AUTH & PROFILE ENDPOINTS ---
+
+const sendAuthError = (res, err, requestId) => {
+  const status = err?.status || 500;
+  console.log(JSON.stringify({
+    level: status >= 500 ? 'error' : 'warn',
+    type: 'auth_error',
+    requestId,
+    error: err?.message,
+    timestamp: new Date().toISOString()
+  }));
+  res.status(status).json({ error: status >= 500 ? 'Account store error' : err.message });
+};
+
+app.post('/api/auth/register', createRateLimitMiddleware(authRateLimiter), validateRegisterRequest, async (req, res) => {
+  try {
+    const profile = await userStore.register(req.body);
+    const token = await userStore.createSession(profile.id);
+    console.log(`[Gemini Backend] Registered user ${profile.id}`);
+    res.status(201).json({ token, profile });
+  } catch (err) {
+    sendAuthError(res, err, req.requestId);
+  }
+});
+
+app.post('/api/auth/login', createRateLimitMiddleware(authRateLimiter), validateLoginRequest, async (req, res) => {
+  try {
+    const profile = await userStore.authenticate(req.body.email, req.body.password);
+    const token = await userStore.createSession(profile.id);
+    res.json({ token, profile });
+  } catch (err) {
+    sendAuthError(res, err, req.requestId);
+  }
+});
+
+app.post('/api/auth/logout', requireAuth, async (req, res) => {
+  try {
+    await userStore.deleteSession(req.sessionToken);
+    res.status(204).end();
+  } catch (err) {
+    sendAuthError(res, err, req.requestId);
+  }
+});
+
+app.get('/api/profile', requireAuth, (req, res) => {
+  res.json(req.user);
+});
+
+app.put('/api/profile', requireAuth, validateProfileRequest, async (req, res) => {
+  try {
+    res.json(await userStore.updateProfile(req.user.id, req.body));
+  } catch (err) {
+    sendAuthError(res, err, req.requestId);
+  }
+});
+
+// --- TRIP ENDPOINTS ---
+// Every save creates a new version; rollback copies an old version forward.
+// Trips belong to the signed-in user; other users' trips are reported as not found.
+
+const sendTripError = (res, err, requestId) => {
+  const status = err?.status || 500;
+  console.log(JSON.stringify({
+    level: status >= 500 ? 'error' : 'warn',
+    type: 'trip_error',
+    requestId,
+    error: err?.message,
+    timestamp: new Date().toISOString()
+  }));
+  res.status(status).json({ error: status >= 500 ? 'Trip store error' : err.message });
+};
+
+const findOwnTrip = async (req) => {
+  const trip = await tripStore.getLatest(req.params.id);
+  if (!trip || trip.userId !== req.user.id) {
+    throw new TripNotFoundError(`Trip ${req.params.id} not found`);
+  }
+  return trip;
+};
+
+const parseVersion = (value) => {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+app.get('/api/trips', requireAuth, async (req, res) => {
+  try {
+    res.json(await tripStore.listSummaries({ userId: req.user.id }));
+  } catch (err) {
+    sendTripError(res, err, req.requestId);
+  }
+});
+
+app.post('/api/trips', requireAuth, validateTripRequest, async (req, res) => {
+  try {
+    const existing = await tripStore.getLatest(req.body.id);
+    if (existing && existing.userId !== req.user.id) {
+      throw new TripNotFoundError(`Trip ${req.body.id} not found`);
+    }
+    const { trip, created } = await tripStore.save({ ...req.body, userId: req.user.id });
+    if (created) await userStore.addTrip(req.user.id, trip.id);
+    console.log(`[Gemini Backend] Saved trip ${trip.id} (v${trip.version})`);
+    res.status(created ? 201 : 200).json(trip);
+  } catch (err) {
+    sendTripError(res, err, req.requestId);
+  }
+});
+
+app.get('/api/trips/:id', requireAuth, async (req, res) => {
+  try {
+    res.json(await findOwnTrip(req));
+  } catch (err) {
+    sendTripError(res, err, req.requestId);
+  }
+});
+
+app.delete('/api/trips/:id', requireAuth, async (req, res) => {
+  try {
+    await findOwnTrip(req);
+    await tripStore.delete(req.params.id);
+    await userStore.removeTrip(req.user.id, req.params.id);
+    console.log(`[Gemini Backend] Deleted trip ${req.params.id}`);
+    res.status(204).end();
+  } catch (err) {
+    sendTripError(res, err, req.requestId);
+  }
+});
+
+app.get('/api/trips/:id/versions', requireAuth, async (req, res) => {
+  try {
+    await findOwnTrip(req);
+    res.json(await tripStore.getHistory(req.params.id));
+  } catch (err) {
+    sendTripError(res, err, req.requestId);
+  }
+});
+
+app.get('/api/trips/:id/versions/:version', requireAuth, async (req, res) => {
+  try {
+    await findOwnTrip(req);
+    const version = parseVersion(req.params.version);
+    const trip = version && await tripStore.getVersion(req.params.id, version);
+    if (!trip) return res.status(404).json({ error: `Version ${req.params.version} not found for trip ${req.params.id}` });
+    res.json(trip);
+  } catch (err) {
+    sendTripError(res, err, req.requestId);
+  }
+});
+
+app.post('/api/trips/:id/rollback', requireAuth, async (req, res) => {
+  try {
+    await findOwnTrip(req);
+    const version = parseVersion(req.body?.version);
+    if (!version) {
+      return res.status(400).json({ error: 'Validation Error', message: 'version must be a positive integer' });
+    }
+    const trip = await tripStore.rollback(req.params.id, version);
+    console.log(`[Gemini Backend] Rolled back trip ${trip.id} to v${version} (now v${trip.version})`);
+    res.json(trip);
+  } catch (err) {
+    sendTripError(res, err, req.requestId);
+  }
+});
+
+// --- SHARE LINKS ---
+// Owners create or revoke a token; anyone holding the token can read the shared plan.
+
+app.get('/api/trips/:id/share', requireAuth, async (req, res) => {
+  try {
+    await findOwnTrip(req);
+    const share = await tripStore.getShare(req.params.id);
+    if (!share) return res.status(404).json({ error: `Trip ${req.params.id} is not shared` });
+    res.json(share);
+  } catch (err) {
+    sendTripError(res, err, req.requestId);
+  }
+});
+
+app.post('/api/trips/:id/share', requireAuth, async (req, res) => {
+  try {
+    const trip = await findOwnTrip(req);
+    const planId = req.body?.planId;
+    if (planId !== undefined && !(trip.optimizedPlans || []).some(p => p.id === planId)) {
+      return res.status(400).json({ error: 'Validation Error', message: 'planId must be one of the trip\'s plans' });
+    }
+    const share = await tripStore.share(req.params.id, planId);
+    console.log(`[Gemini Backend] Shared trip ${req.params.id}`);
+    res.json(share);
+  } catch (err) {
+    sendTripError(res, err, req.requestId);
+  }
+});
+
+app.delete('/api/trips/:id/share', requireAuth, async (req, res) => {
+  try {
+    await findOwnTrip(req);
+    if (!(await tripStore.revokeShare(req.params.id))) {
+      return res.status(404).json({ error: `Trip ${req.params.id} is not shared` });
+    }
+    console.log(`[Gemini Backend] Revoked share link for trip ${req.params.id}`);
+    res.status(204).end();
+  } catch (err) {
+    sendTripError(res, err, req.requestId);
+  }
+});
+
+app.get('/api/shared/:token', async (req, res) => {
+  try {
+    const shared = await tripStore.resolveShare(req.params.token);
+    if (!shared) return res.status(404).json({ error: 'This link is invalid or has been revoked' });
+    res.json(toSharedTrip(shared.trip, shared.share));
+  } catch (err) {
+    sendTripError(res, err, req.requestId);
+  }
+});
+
+// --- COMMENTS & VOTES ---
+// Mounted for the owner (/api/trips/:id) and for anyone with the share link (/api/shared/:token).
+// Reading through a share link is public; commenting and voting need an account.
+// A share link only reaches the feedback on the plan it shares.
+
+const findSharedTrip = async (req) => {
+  const shared = await tripStore.resolveShare(req.params.token);
+  if (!shared) throw new TripNotFoundError('This link is invalid or has been revoked');
+  const { itinerary } = toSharedTrip(shared.trip, shared.share);
+  return { ...shared.trip, optimizedPlans: itinerary ? [itinerary] : [] };
+};
+
+const mountFeedbackRoutes = (base, findTrip, readGuards, scopeFeedback = (feedback) => feedback) => {
+  app.get(`${base}/feedback`, ...readGuards, async (req, res) => {
+    try {
+      const trip = await findTrip(req);
+      res.json(scopeFeedback(await tripStore.getFeedback(trip.id), trip));
+    } catch (err) {
+      sendTripError(res, err, req.requestId);
+    }
+  });
+
+  app.post(`${base}/comments`, requireAuth, validateCommentRequest, async (req, res) => {
+    try {
+      const trip = await findTrip(req);
+      const target = resolveTarget(trip, req.body);
+      if (!target) {
+        return res.status(400).json({ error: 'Validation Error', message: 'planId/place do not match the trip\'s plans' });
       }
+      const feedback = await tripStore.updateFeedback(trip.id, feedback => withComment(feedback, target, req.body.text, req.user));
+      res.status(201).json(scopeFeedback(feedback, trip));
+    } catch (err) {
+      sendTripError(res, err, req.requestId);
+    }
+  });
 
-      // Forward the entire error object if it has detailed error info
-      if (err.message) {
-        errorResponse.error = err.message;
+  app.post(`${base}/votes`, requireAuth, validateVoteRequest, async (req, res) => {
+    try {
+      const trip = await findTrip(req);
+      const target = resolveTarget(trip, req.body);
+      if (!target) {
+        return res.status(400).json({ error: 'Validation Error', message: 'planId/place do not match the trip\'s plans' });
       }
+      res.json(scopeFeedback(await tripStore.updateFeedback(trip.id, feedback => withVote(feedback, target, req.body.value, req.user)), trip));
+    } catch (err) {
+      sendTripError(res, err, req.requestId);
+    }
+  });
 
-      // If there's a nested error object (common in API errors), forward it
-      if (err.error) {
-        errorResponse = err.error;
+  // Authors can delete their comments; the trip owner can delete any
+  app.delete(`${base}/comments/:commentId`, requireAuth, async (req, res) => {
+    try {
+      const trip = await findTrip(req);
+      const comment = scopeFeedback(await tripStore.getFeedback(trip.id), trip).comments.find(c => c.id === req.params.commentId);
+      if (!comment) return res.status(404).json({ error: 'Comment not found' });
+      if (comment.userId !== req.user.id && trip.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Only the author or the trip owner can delete this comment' });
       }
+      res.json(scopeFeedback(await tripStore.updateFeedback(trip.id, feedback => withoutComment(feedback, comment.id)), trip));
+    } catch (err) {
+      sendTripError(res, err, req.requestId);
     }
+  });
+};
 
-    console.error('[Gemini Backend] Sending error response:', { status, errorResponse });
-    res.status(status).json(errorResponse);
-  }
-});
+mountFeedbackRoutes('/api/trips/:id', findOwnTrip, [requireAuth]);
+mountFeedbackRoutes('/api/shared/:token', findSharedTrip, [], (feedback, trip) => feedbackForPlans(feedback, trip.optimizedPlans));
 
 // Metrics endpoint for monitoring
 const metrics = {
@@ -207,7 +664,10 @@ const metrics = {
   errors: 0,
   geminiCalls: 0,
   geminiErrors: 0,
+  geminiCancelled: 0,
   totalDuration: 0,
+  promptTokens: 0,
+  completionTokens: 0,
   startTime: Date.now()
 };
 
@@ -225,12 +685,19 @@ app.get('/api/metrics', (_req, res) => {
     gemini: {
       calls: metrics.geminiCalls,
       errors: metrics.geminiErrors,
+      cancelled: metrics.geminiCancelled,
       errorRate: metrics.geminiCalls > 0 ? (metrics.geminiErrors / metrics.geminiCalls * 100).toFixed(2) + '%' : '0%',
       avgDuration: Math.round(avgDuration) + 'ms'
     },
+    tokens: {
+      prompt: metrics.promptTokens,
+      completion: metrics.completionTokens,
+      total: metrics.promptTokens + metrics.completionTokens
+    },
     rateLimits: {
       global: globalRateLimiter.getAllStats(),
-      gemini: geminiRateLimiter.getAllStats()
+      gemini: geminiRateLimiter.getAllStats(),
+      auth: authRateLimiter.getAllStats()
     },
     timestamp: new Date().toISOString()
   });
@@ -246,6 +713,8 @@ app.post('/api/admin/rate-limit/reset', validateAdminRequest, (req, res) => {
 
   if (limiter === 'gemini') {
     geminiRateLimiter.reset(ip);
+  } else if (limiter === 'auth') {
+    authRateLimiter.reset(ip);
   } else {
     globalRateLimiter.reset(ip);
   }
@@ -0,0 +1,197 @@
+/**
+ * Fixture-backed LLM Providers (LLM_MODE=fake | record)
+ *
+ * fake:   serves canned responses from the fixtures directory, no network or API key needed.
+ * record: forwards to the real provider and writes every response to <fixtures>/recorded/.
+ *
+ * A fixture file looks like:
+ *   {
+ *     "match": { "requestHash": "...", "systemInstructionIncludes": "...", "contentsPattern": "..." },
+ *     "response": { ...agent JSON... },
+ *     "usage": { "promptTokens": 0, "completionTokens": 0, "totalTokens": 0 }
+ *   }
+ * An exact `requestHash` match wins; otherwise the first fixture whose
+ * `systemInstructionIncludes` text appears in the system instruction is used.
+ * Among those, fixtures with a `contentsPattern` (case-insensitive regex) only
+ * match when it matches the request contents, and win over ones without.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+const STREAM_CHUNK_SIZE = 256;
+
+/**
+ * Hash of the parts of a request that determine the answer.
+ * The model name is left out so recordings replay regardless of the configured model.
+ */
+export function hashRequest({ contents, config }) {
+  const key = JSON.stringify({
+    contents,
+    systemInstruction: config?.systemInstruction || null
+  });
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export class FixtureStore {
+  constructor(dir) {
+    this.dir = dir;
+    this.fixtures = [];
+    this.load();
+  }
+
+  load() {
+    this.fixtures = [];
+    for (const dir of [this.dir, path.join(this.dir, 'recorded')]) {
+      if (!fs.existsSync(dir)) continue;
+
+      for (const file of fs.readdirSync(dir).sort()) {
+        if (!file.endsWith('.json')) continue;
+        const filePath = path.join(dir, file);
+        try {
+          const fixture = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+          this.fixtures.push({ ...fixture, file: filePath });
+        } catch (err) {
+          console.error(`[Fixtures] Skipping invalid fixture ${filePath}: ${err.message}`);
+        }
+      }
+    }
+  }
+
+  find(request) {
+    const requestHash = hashRequest(request);
+    const exact = this.fixtures.find(f => f.match?.requestHash === requestHash);
+    if (exact) return exact;
+
+    const systemInstruction = request.config?.systemInstruction || '';
+    const candidates = this.fixtures.filter(f =>
+      f.match?.systemInstructionIncludes && systemInstruction.includes(f.match.systemInstructionIncludes)
+    );
+    const contents = typeof request.contents === 'string' ? request.contents : JSON.stringify(request.contents ?? '');
+    return candidates.find(f => f.match.contentsPattern && matchesPattern(f, contents))
+      || candidates.find(f => !f.match.contentsPattern)
+      || null;
+  }
+
+  save(request, text, usage) {
+    const requestHash = hashRequest(request);
+    const dir = path.join(this.dir, 'recorded');
+    fs.mkdirSync(dir, { recursive: true });
+
+    let response = text;
+    try {
+      response = JSON.parse(text);
+    } catch {
+      // Keep non-JSON responses as plain text
+    }
+
+    const fixture = {
+      match: { requestHash },
+      request: {
+        model: request.model,
+        systemInstruction: request.config?.systemInstruction || null,
+        contents: request.contents
+      },
+      response,
+      usage: usage || null
+    };
+
+    const filePath = path.join(dir, `${requestHash.slice(0, 16)}.json`);
+    fs.writeFileSync(filePath, JSON.stringify(fixture, null, 2) + '\n');
+
+    this.fixtures = this.fixtures.filter(f => f.match?.requestHash !== requestHash);
+    this.fixtures.unshift({ ...fixture, file: filePath });
+    return filePath;
+  }
+}
+
+/**
+ * Serves responses from a FixtureStore under the name of the provider it replaces.
+ */
+export class FixtureProvider {
+  constructor({ name, store, isValidModel = () => true }) {
+    this.name = name;
+    this.store = store;
+    this.isValidModel = isValidModel;
+  }
+
+  async generate(request) {
+    request.signal?.throwIfAborted();
+    const fixture = this.lookup(request);
+    return { text: responseText(fixture), usage: fixture.usage || null };
+  }
+
+  async *stream(request) {
+    const fixture = this.lookup(request);
+    const text = responseText(fixture);
+
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      request.signal?.throwIfAborted();
+      yield { text: text.slice(i, i + STREAM_CHUNK_SIZE) };
+    }
+    if (fixture.usage) yield { usage: fixture.usage };
+  }
+
+  lookup(request) {
+    const fixture = this.store.find(request);
+    if (!fixture) {
+      const error = new Error(`No fixture matches request ${hashRequest(request).slice(0, 16)}. Record one with LLM_MODE=record.`);
+      error.status = 404;
+      throw error;
+    }
+    return fixture;
+  }
+}
+
+/**
+ * Wraps a real provider and saves each successful response as a fixture.
+ */
+export class RecordingProvider {
+  constructor({ provider, store }) {
+    this.name = provider.name;
+    this.provider = provider;
+    this.store = store;
+  }
+
+  isValidModel(model) {
+    return this.provider.isValidModel(model);
+  }
+
+  async generate(request) {
+    const result = await this.provider.generate(request);
+    if (result.text) this.record(request, result.text, result.usage);
+    return result;
+  }
+
+  async *stream(request) {
+    let text = '';
+    let usage = null;
+
+    for await (const part of this.provider.stream(request)) {
+      if (part.usage) usage = part.usage;
+      else if (part.text) text += part.text;
+      yield part;
+    }
+
+    if (text) this.record(request, text, usage);
+  }
+
+  record(request, text, usage) {
+    const filePath = this.store.save(request, text, usage);
+    console.log(`[Fixtures] Recorded ${this.name} response to ${filePath}`);
+  }
+}
+
+function matchesPattern(fixture, contents) {
+  try {
+    return new RegExp(fixture.match.contentsPattern, 'i').test(contents);
+  } catch (err) {
+    console.error(`[Fixtures] Invalid contentsPattern in ${fixture.file}: ${err.message}`);
+    return false;
+  }
+}
+
+function responseText(fixture) {
+  return typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+}
@@ -0,0 +1,60 @@
+/**
+ * Gemini LLM Provider
+ *
+ * Thin wrapper around @google/genai. Requests already use Gemini's native
+ * shape ({ model, contents, config }), so they are passed through unchanged.
+ */
+
+import { GoogleGenAI } from '@google/genai';
+
+export class GeminiProvider {
+  constructor({ apiKey }) {
+    this.name = 'gemini';
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  isValidModel(model) {
+    return isGeminiModel(model);
+  }
+
+  /**
+   * Returns { text, usage }
+   */
+  async generate({ model, contents, config, signal }) {
+    const result = await this.client.models.generateContent({ model, contents, config: withSignal(config, signal) });
+    return { text: result.text, usage: normalizeUsage(result.usageMetadata) };
+  }
+
+  /**
+   * Yields { text } chunks, then a final { usage } entry when usage is reported.
+   */
+  async *stream({ model, contents, config, signal }) {
+    const stream = await this.client.models.generateContentStream({ model, contents, config: withSignal(config, signal) });
+    let usageMetadata = null;
+
+    for await (const chunk of stream) {
+      if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+      if (chunk.text) yield { text: chunk.text };
+    }
+
+    if (usageMetadata) yield { usage: normalizeUsage(usageMetadata) };
+  }
+}
+
+export function isGeminiModel(model) {
+  return model.startsWith('gemini-');
+}
+
+// The SDK takes the abort signal as part of the request config
+function withSignal(config, signal) {
+  return signal ? { ...config, abortSignal: signal } : config;
+}
+
+function normalizeUsage(usageMetadata) {
+  if (!usageMetadata) return null;
+  return {
+    promptTokens: usageMetadata.promptTokenCount || 0,
+    completionTokens: usageMetadata.candidatesTokenCount || 0,
+    totalTokens: usageMetadata.totalTokenCount || 0
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * LLM Provider Registry
+ *
+ * Every provider implements the same interface:
+ *   name: string
+ *   isValidModel(model: string): boolean
+ *   generate({ model, contents, config, signal }): Promise<{ text, usage }>
+ *   stream({ model, contents, config, signal }): AsyncIterable<{ text } | { usage }>
+ *
+ * where usage is { promptTokens, completionTokens, totalTokens } or null, and the optional
+ * AbortSignal cancels the call when the client disconnects.
+ * Providers are enabled by their environment variables:
+ *   gemini            -> GEMINI_API_KEY
+ *   openai-compatible -> LLM_BASE_URL (+ optional LLM_API_KEY), e.g. http://localhost:11434/v1 for Ollama
+ *
+ * LLM_MODE switches how providers answer (see ./fixture.js):
+ *   live   (default) -> call the real APIs
+ *   fake              -> serve fixtures from LLM_FIXTURES_DIR; every provider name is available, no keys needed
+ *   record            -> call the real APIs and save each response to LLM_FIXTURES_DIR/recorded
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { GeminiProvider, isGeminiModel } from './gemini.js';
+import { OpenAICompatibleProvider } from './openaiCompatible.js';
+import { FixtureStore, FixtureProvider, RecordingProvider } from './fixture.js';
+
+export const LLM_MODES = ['live', 'fake', 'record'];
+
+const DEFAULT_FIXTURES_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../fixtures');
+
+export function createProviderRegistry(env = process.env) {
+  const providers = new Map();
+  const mode = env.LLM_MODE || 'live';
+
+  if (!LLM_MODES.includes(mode)) {
+    throw new Error(`LLM_MODE must be one of ${LLM_MODES.join(', ')}`);
+  }
+
+  const store = mode === 'live' ? null : new FixtureStore(env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+
+  if (mode === 'fake') {
+    providers.set('gemini', new FixtureProvider({ name: 'gemini', store, isValidModel: isGeminiModel }));
+    providers.set('openai-compatible', new FixtureProvider({ name: 'openai-compatible', store }));
+  }
+
+  if (mode !== 'fake' && env.GEMINI_API_KEY) {
+    providers.set('gemini', new GeminiProvider({ apiKey: env.GEMINI_API_KEY }));
+  }
+
+  if (mode !== 'fake' && env.LLM_BASE_URL) {
+    providers.set('openai-compatible', new OpenAICompatibleProvider({
+      baseUrl: env.LLM_BASE_URL,
+      apiKey: env.LLM_API_KEY
+    }));
+  }
+
+  if (mode === 'record') {
+    for (const [name, provider] of providers) {
+      providers.set(name, new RecordingProvider({ provider, store }));
+    }
+  }
+
+  const defaultName = env.LLM_PROVIDER || (providers.has('gemini') ? 'gemini' : providers.keys().next().value);
+
+  return {
+    mode,
+    fixturesDir: store?.dir || null,
+    names: () => [...providers.keys()],
+    defaultName,
+    /**
+     * Resolve a provider by name, falling back to the default. Returns null if unavailable.
+     */
+    get(name) {
+      return providers.get(name || defaultName) || null;
+    }
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * OpenAI-compatible LLM Provider
+ *
+ * Talks to any server exposing the OpenAI Chat Completions API
+ * (Ollama, vLLM, llama.cpp server, LM Studio, OpenAI itself).
+ * Translates the Gemini-shaped request used by the agents:
+ * - config.systemInstruction -> system message
+ * - config.responseSchema (Gemini Type schema) -> response_format json_schema
+ */
+
+export class OpenAICompatibleProvider {
+  constructor({ baseUrl, apiKey }) {
+    this.name = 'openai-compatible';
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+  }
+
+  isValidModel(model) {
+    return model.trim().length > 0;
+  }
+
+  async generate(request) {
+    const response = await this.post(this.buildBody(request, false), request.signal);
+    const data = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    return { text, usage: normalizeUsage(data?.usage) };
+  }
+
+  async *stream(request) {
+    const response = await this.post(this.buildBody(request, true), request.signal);
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop();
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') return;
+
+        let data;
+        try {
+          data = JSON.parse(payload);
+        } catch {
+          continue;
+        }
+
+        const text = data?.choices?.[0]?.delta?.content;
+        if (text) yield { text };
+        if (data?.usage) yield { usage: normalizeUsage(data.usage) };
+      }
+    }
+  }
+
+  buildBody({ model, contents, config = {} }, stream) {
+    const messages = [];
+    if (config.systemInstruction) {
+      messages.push({ role: 'system', content: String(config.systemInstruction) });
+    }
+    messages.push({
+      role: 'user',
+      content: typeof contents === 'string' ? contents : JSON.stringify(contents)
+    });
+
+    const body = { model, messages, stream };
+
+    if (config.responseSchema) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: toJsonSchema(config.responseSchema) }
+      };
+    } else if (config.responseMimeType === 'application/json') {
+      body.response_format = { type: 'json_object' };
+    }
+
+    if (typeof config.temperature === 'number') body.temperature = config.temperature;
+    if (stream) body.stream_options = { include_usage: true };
+
+    return body;
+  }
+
+  async post(body, signal) {
+    const headers = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      let message = `LLM server error: ${response.status}`;
+      try {
+        const errBody = await response.json();
+        message = errBody?.error?.message || errBody?.error || message;
+      } catch {
+        // ignore JSON parse failure
+      }
+      const error = new Error(message);
+      error.status = response.status;
+      throw error;
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Converts a Gemini `Type` schema (uppercase types) into standard JSON Schema.
+ */
+export function toJsonSchema(schema) {
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const result = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'type' && typeof value === 'string') {
+      result.type = value.toLowerCase();
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(value).map(([prop, sub]) => [prop, toJsonSchema(sub)])
+      );
+    } else if (key === 'items') {
+      result.items = toJsonSchema(value);
+    } else if (key === 'propertyOrdering') {
+      continue; // Gemini-only
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function normalizeUsage(usage) {
+  if (!usage) return null;
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
+    totalTokens: usage.total_tokens || 0
+  };
+}
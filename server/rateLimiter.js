@@ -125,6 +125,13 @@ export const geminiRateLimiter = new RateLimiter({
   windowMs: 60 * 1000       // 1 minute window
 });
 
+// Sign-in and sign-up attempts, to slow down password guessing
+export const authRateLimiter = new RateLimiter({
+  maxTokens: 10,            // 10 attempts
+  refillRate: 0.1,          // 1 attempt every 10 seconds
+  windowMs: 60 * 1000       // 1 minute window
+});
+
 /**
  * Express middleware for rate limiting
  */
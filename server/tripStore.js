@@ -0,0 +1,399 @@
+/**
+ * File-based Trip Store
+ *
+ * Every saved version of a trip is written to its own file:
+ *   <dataDir>/trips/<tripId>/v<version>.json
+ * The latest version is the highest number. Versions are never rewritten;
+ * a rollback saves a copy of the old version as a new one. Deleting a trip
+ * (e.g. a discarded draft) removes all of its versions.
+ *
+ * A trip can have one share token for read-only links. It is stored next to the
+ * versions (<tripId>/share.json) and indexed by token in <dataDir>/shares/<token>.json.
+ * Comments and votes (see feedback.js) live in <tripId>/feedback.json.
+ *
+ * Each user's trips are indexed in <dataDir>/trip-index/<userId>.json (trip id ->
+ * dashboard summary), so listing a user's trips never reads anyone else's. A
+ * missing index is rebuilt once from the trip files.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { emptyFeedback } from './feedback.js';
+
+const TRIP_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+const TRIP_STATUSES = ['draft', 'confirmed', 'booked'];
+const SHARE_TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+const USER_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+export const isValidTripId = (id) => typeof id === 'string' && TRIP_ID_PATTERN.test(id);
+export const isValidTripStatus = (status) => TRIP_STATUSES.includes(status);
+export const isValidShareToken = (token) => typeof token === 'string' && SHARE_TOKEN_PATTERN.test(token);
+
+/**
+ * Dashboard view of a trip: the selected (or first) plan stands in for the trip's cost.
+ */
+export const summarizeTrip = (trip) => {
+  const plans = trip.optimizedPlans || [];
+  const plan = plans.find(p => p.id === trip.selectedPlanId) || plans[0];
+  return {
+    id: trip.id,
+    userId: trip.userId,
+    version: trip.version,
+    createdAt: trip.createdAt,
+    updatedAt: trip.updatedAt,
+    status: trip.status,
+    destination: trip.intent?.destination || 'Unknown destination',
+    startDate: trip.intent?.startDate || null,
+    endDate: trip.intent?.endDate || null,
+    durationDays: trip.intent?.durationDays || 0,
+    planTitles: plans.map(p => p.title),
+    totalEstimatedCost: plan ? plan.totalEstimatedCost : null,
+    currency: plan ? plan.currency : null,
+  };
+};
+
+/**
+ * Read-only view of a shared trip: the shared plan and the trip basics, nothing about the owner.
+ */
+export const toSharedTrip = (trip, share) => {
+  const plans = trip.optimizedPlans || [];
+  // The shared plan may be gone after a re-optimization; fall back like the dashboard does
+  const plan = plans.find(p => p.id === share.planId) || plans.find(p => p.id === trip.selectedPlanId) || plans[0] || null;
+  return {
+    tripId: trip.id,
+    version: trip.version,
+    updatedAt: trip.updatedAt,
+    status: trip.status,
+    destination: trip.intent?.destination || 'Unknown destination',
+    startDate: trip.intent?.startDate || null,
+    endDate: trip.intent?.endDate || null,
+    durationDays: trip.intent?.durationDays || 0,
+    travelers: trip.intent?.travelers || null,
+    itinerary: plan,
+  };
+};
+
+const byLatestUpdate = (a, b) => b.updatedAt.localeCompare(a.updatedAt);
+
+export class TripNotFoundError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'TripNotFoundError';
+    this.status = 404;
+  }
+}
+
+export class TripStore {
+  constructor(dataDir) {
+    this.dir = path.join(dataDir, 'trips');
+    this.sharesDir = path.join(dataDir, 'shares');
+    this.indexDir = path.join(dataDir, 'trip-index');
+    this.locks = new Map(); // tripId (or user:<userId> for indexes) -> tail of the pending write chain
+  }
+
+  tripDir(id) {
+    if (!isValidTripId(id)) {
+      throw new TripNotFoundError(`Invalid trip id: ${id}`);
+    }
+    return path.join(this.dir, id);
+  }
+
+  async versionNumbers(id) {
+    try {
+      const files = await fs.readdir(this.tripDir(id));
+      return files
+        .map(file => /^v(\d+)\.json$/.exec(file))
+        .filter(Boolean)
+        .map(match => Number(match[1]))
+        .sort((a, b) => a - b);
+    } catch (err) {
+      if (err.code === 'ENOENT') return [];
+      throw err;
+    }
+  }
+
+  async readVersion(id, version) {
+    try {
+      const raw = await fs.readFile(path.join(this.tripDir(id), `v${version}.json`), 'utf8');
+      return JSON.parse(raw);
+    } catch (err) {
+      if (err.code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  async getLatest(id) {
+    const versions = await this.versionNumbers(id);
+    return versions.length ? this.readVersion(id, versions[versions.length - 1]) : null;
+  }
+
+  async getVersion(id, version) {
+    return this.readVersion(id, version);
+  }
+
+  async getHistory(id) {
+    const versions = await this.versionNumbers(id);
+    return Promise.all(versions.map(version => this.readVersion(id, version)));
+  }
+
+  /**
+   * Latest version of every trip, optionally for a single user, most recently updated first.
+   */
+  async list({ userId } = {}) {
+    const ids = userId ? Object.keys(await this.userIndex(userId)) : await this.allTripIds();
+    const trips = (await Promise.all(ids.map(id => this.getLatest(id)))).filter(Boolean);
+    return trips
+      .filter(trip => !userId || trip.userId === userId)
+      .sort(byLatestUpdate);
+  }
+
+  /**
+   * Like list(), but only the fields a trip dashboard needs. A user's summaries come
+   * straight from their index.
+   */
+  async listSummaries(filter = {}) {
+    if (!filter.userId) return (await this.list(filter)).map(summarizeTrip);
+    return Object.values(await this.userIndex(filter.userId)).sort(byLatestUpdate);
+  }
+
+  async allTripIds() {
+    try {
+      return (await fs.readdir(this.dir)).filter(isValidTripId);
+    } catch (err) {
+      if (err.code === 'ENOENT') return [];
+      throw err;
+    }
+  }
+
+  userIndexFile(userId) {
+    if (!USER_ID_PATTERN.test(userId)) {
+      throw new TripNotFoundError(`Invalid user id: ${userId}`);
+    }
+    return path.join(this.indexDir, `${userId}.json`);
+  }
+
+  /**
+   * The user's trip index (trip id -> summary). Built from the trip files the first time,
+   * for data saved before indexes existed.
+   */
+  async userIndex(userId) {
+    const file = this.userIndexFile(userId);
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (err) {
+      if (err.code !== 'ENOENT') throw err;
+    }
+
+    return this.withLock(`user:${userId}`, async () => {
+      try {
+        return JSON.parse(await fs.readFile(file, 'utf8'));
+      } catch (err) {
+        if (err.code !== 'ENOENT') throw err;
+      }
+      const trips = (await Promise.all((await this.allTripIds()).map(id => this.getLatest(id))))
+        .filter(trip => trip && trip.userId === userId);
+      const index = Object.fromEntries(trips.map(trip => [trip.id, summarizeTrip(trip)]));
+      await this.writeJson(file, index);
+      return index;
+    });
+  }
+
+  /**
+   * Applies `change(index)` to the user's trip index and saves it.
+   */
+  async updateUserIndex(userId, change) {
+    await this.userIndex(userId); // make sure it exists before taking the lock
+    const file = this.userIndexFile(userId);
+    return this.withLock(`user:${userId}`, async () => {
+      const index = JSON.parse(await fs.readFile(file, 'utf8'));
+      await this.writeJson(file, change(index));
+    });
+  }
+
+  /**
+   * Creates version 1 of a new trip, or the next version of an existing one.
+   * Fields left out of an update keep their previous values.
+   */
+  async save(data) {
+    return this.withLock(data.id, async () => {
+      const existing = await this.getLatest(data.id);
+      const now = new Date().toISOString();
+
+      const trip = existing
+        ? {
+            ...existing,
+            ...data,
+            userId: existing.userId,
+            version: existing.version + 1,
+            createdAt: existing.createdAt,
+            updatedAt: now,
+            discovery: data.discovery !== undefined ? data.discovery : existing.discovery,
+            optimizedPlans: data.optimizedPlans !== undefined ? data.optimizedPlans : existing.optimizedPlans,
+          }
+        : {
+            id: data.id,
+            userId: data.userId || 'user_guest',
+            version: 1,
+            createdAt: now,
+            updatedAt: now,
+            status: data.status || 'draft',
+            intent: data.intent,
+            discovery: data.discovery || null,
+            optimizedPlans: data.optimizedPlans || [],
+            selectedPlanId: data.selectedPlanId,
+            editHistory: data.editHistory,
+          };
+
+      await this.writeVersion(trip);
+      await this.updateUserIndex(trip.userId, index => ({ ...index, [trip.id]: summarizeTrip(trip) }));
+      return { trip, created: !existing };
+    });
+  }
+
+  /**
+   * Saves a copy of `version` as the new latest version.
+   */
+  async rollback(id, version) {
+    const target = await this.readVersion(id, version);
+    if (!target) {
+      throw new TripNotFoundError(`Version ${version} not found for trip ${id}`);
+    }
+
+    const { version: _oldVersion, updatedAt: _oldUpdated, createdAt: _created, ...tripData } = target;
+    // Fields missing from the old version must be cleared, not inherited from the latest one
+    const { trip } = await this.save({ ...tripData, selectedPlanId: target.selectedPlanId, editHistory: target.editHistory });
+    return trip;
+  }
+
+  /**
+   * Removes a trip, all of its versions and its share link.
+   */
+  async delete(id) {
+    return this.withLock(id, async () => {
+      const versions = await this.versionNumbers(id);
+      if (!versions.length) {
+        throw new TripNotFoundError(`Trip ${id} not found`);
+      }
+      const { userId } = await this.readVersion(id, versions[versions.length - 1]);
+      const share = await this.getShare(id);
+      if (share) await fs.rm(path.join(this.sharesDir, `${share.token}.json`), { force: true });
+      await fs.rm(this.tripDir(id), { recursive: true, force: true });
+      await this.updateUserIndex(userId, ({ [id]: _removed, ...rest }) => rest);
+    });
+  }
+
+  async readTripFile(id, name) {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.tripDir(id), name), 'utf8'));
+    } catch (err) {
+      if (err.code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  async getShare(id) {
+    return this.readTripFile(id, 'share.json');
+  }
+
+  async getFeedback(id) {
+    return (await this.readTripFile(id, 'feedback.json')) || emptyFeedback();
+  }
+
+  /**
+   * Applies `change(feedback)` and saves the result. Returns the updated feedback.
+   */
+  async updateFeedback(id, change) {
+    return this.withLock(id, async () => {
+      if (!(await this.versionNumbers(id)).length) {
+        throw new TripNotFoundError(`Trip ${id} not found`);
+      }
+      const feedback = change(await this.getFeedback(id));
+      await this.writeJson(path.join(this.tripDir(id), 'feedback.json'), feedback);
+      return feedback;
+    });
+  }
+
+  /**
+   * Shares `planId` of the trip read-only. Keeps the existing token if the trip is already shared.
+   */
+  async share(id, planId) {
+    return this.withLock(id, async () => {
+      if (!(await this.versionNumbers(id)).length) {
+        throw new TripNotFoundError(`Trip ${id} not found`);
+      }
+
+      const existing = await this.getShare(id);
+      const share = {
+        token: existing?.token || crypto.randomBytes(24).toString('base64url'),
+        planId: planId || existing?.planId || null,
+        createdAt: existing?.createdAt || new Date().toISOString(),
+      };
+      await this.writeJson(path.join(this.sharesDir, `${share.token}.json`), { tripId: id });
+      await this.writeJson(path.join(this.tripDir(id), 'share.json'), share);
+      return share;
+    });
+  }
+
+  /**
+   * Invalidates the trip's share link. Returns false if it wasn't shared.
+   */
+  async revokeShare(id) {
+    return this.withLock(id, async () => {
+      const share = await this.getShare(id);
+      if (!share) return false;
+      await fs.rm(path.join(this.tripDir(id), 'share.json'), { force: true });
+      await fs.rm(path.join(this.sharesDir, `${share.token}.json`), { force: true });
+      return true;
+    });
+  }
+
+  /**
+   * The latest version of the trip behind a share token, or null if the token is unknown or revoked.
+   */
+  async resolveShare(token) {
+    if (!isValidShareToken(token)) return null;
+
+    let index;
+    try {
+      index = JSON.parse(await fs.readFile(path.join(this.sharesDir, `${token}.json`), 'utf8'));
+    } catch (err) {
+      if (err.code === 'ENOENT') return null;
+      throw err;
+    }
+
+    const share = await this.getShare(index.tripId);
+    if (!share || share.token !== token) return null;
+    const trip = await this.getLatest(index.tripId);
+    return trip ? { trip, share } : null;
+  }
+
+  async writeVersion(trip) {
+    await this.writeJson(path.join(this.tripDir(trip.id), `v${trip.version}.json`), trip);
+  }
+
+  async writeJson(file, data) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    // Write to a temp file first so a crash never leaves a half-written file behind
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data));
+    await fs.rename(tmp, file);
+  }
+
+  /**
+   * Serializes writes per trip so concurrent saves never claim the same version number.
+   */
+  async withLock(id, fn) {
+    const previous = this.locks.get(id) || Promise.resolve();
+    const run = previous.catch(() => {}).then(fn);
+    const tail = run.catch(() => {});
+    this.locks.set(id, tail);
+
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(id) === tail) this.locks.delete(id);
+    }
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * File-based User Store
+ *
+ * Each account is written to <dataDir>/users/<userId>.json together with its profile.
+ * Passwords are hashed with scrypt and a per-user salt. Session tokens are random and
+ * only their SHA-256 hash is stored, in <dataDir>/sessions/<hash>.json. Emails are
+ * indexed in <dataDir>/emails/<hash>.json (SHA-256 of the normalized email -> user id),
+ * built from the user files the first time it is missing.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt);
+
+const USER_ID_PATTERN = /^user_[a-f0-9]{32}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const KEY_LENGTH = 64;
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const PREFERENCE_KEYS = ['pace', 'budgetTier', 'accessibility', 'dietaryRestrictions', 'homeCurrency'];
+
+export const normalizeEmail = (email) => email.trim().toLowerCase();
+export const isValidEmail = (email) => typeof email === 'string' && EMAIL_PATTERN.test(email.trim());
+
+const DEFAULT_PREFERENCES = {
+  pace: 'Moderate',
+  budgetTier: 'Moderate',
+  accessibility: [],
+  dietaryRestrictions: [],
+  homeCurrency: 'USD'
+};
+
+export class AuthError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = 401;
+  }
+}
+
+export class UserExistsError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'UserExistsError';
+    this.status = 409;
+  }
+}
+
+// Only the known preference fields are ever stored
+const pickPreferences = (preferences) =>
+  Object.fromEntries(PREFERENCE_KEYS.filter(key => preferences[key] !== undefined).map(key => [key, preferences[key]]));
+
+const hashPassword = async (password, salt) => (await scrypt(password, salt, KEY_LENGTH)).toString('hex');
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+const hashEmail = (email) => crypto.createHash('sha256').update(normalizeEmail(email)).digest('hex');
+
+const readJson = async (file) => {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (err) {
+    if (err.code === 'ENOENT') return null;
+    throw err;
+  }
+};
+
+// Temp file + rename so a crash never leaves a half-written record behind
+const writeJson = async (file, data) => {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data));
+  await fs.rename(tmp, file);
+};
+
+export class UserStore {
+  constructor(dataDir) {
+    this.usersDir = path.join(dataDir, 'users');
+    this.sessionsDir = path.join(dataDir, 'sessions');
+    this.emailsDir = path.join(dataDir, 'emails');
+    this.emailIndexReady = null; // Promise of the one-time index build
+    this.pending = Promise.resolve(); // Tail of the write chain
+  }
+
+  userFile(id) {
+    if (!USER_ID_PATTERN.test(id)) {
+      throw new AuthError('Invalid user id');
+    }
+    return path.join(this.usersDir, `${id}.json`);
+  }
+
+  async readUser(id) {
+    return readJson(this.userFile(id));
+  }
+
+  emailFile(email) {
+    return path.join(this.emailsDir, `${hashEmail(email)}.json`);
+  }
+
+  async findByEmail(email) {
+    await this.ensureEmailIndex();
+    const entry = await readJson(this.emailFile(email));
+    if (!entry) return null;
+
+    const user = await this.readUser(entry.userId);
+    return user?.email === normalizeEmail(email) ? user : null;
+  }
+
+  /**
+   * Indexes accounts created before the email index existed. Runs once per data dir.
+   */
+  async ensureEmailIndex() {
+    if (!this.emailIndexReady) {
+      this.emailIndexReady = this.buildEmailIndex().catch(err => {
+        this.emailIndexReady = null;
+        throw err;
+      });
+    }
+    return this.emailIndexReady;
+  }
+
+  async buildEmailIndex() {
+    try {
+      await fs.access(this.emailsDir);
+      return;
+    } catch (err) {
+      if (err.code !== 'ENOENT') throw err;
+    }
+
+    let files = [];
+    try {
+      files = (await fs.readdir(this.usersDir)).filter(f => f.endsWith('.json'));
+    } catch (err) {
+      if (err.code !== 'ENOENT') throw err;
+    }
+    // Built in a temp dir and renamed, so an interrupted build is simply redone
+    const tmpDir = `${this.emailsDir}.${process.pid}.tmp`;
+    await fs.rm(tmpDir, { recursive: true, force: true });
+    await fs.mkdir(tmpDir, { recursive: true });
+    for (const file of files) {
+      const user = await readJson(path.join(this.usersDir, file));
+      if (user?.email) await writeJson(path.join(tmpDir, `${hashEmail(user.email)}.json`), { userId: user.id });
+    }
+    await fs.rename(tmpDir, this.emailsDir);
+  }
+
+  /**
+   * Creates an account and its default profile. Emails are unique (case-insensitive).
+   */
+  async register({ email, password, name }) {
+    return this.withLock(async () => {
+      if (await this.findByEmail(email)) {
+        throw new UserExistsError('An account with this email already exists');
+      }
+
+      const id = `user_${crypto.randomUUID().replace(/-/g, '')}`;
+      const salt = crypto.randomBytes(16).toString('hex');
+      const user = {
+        id,
+        email: normalizeEmail(email),
+        salt,
+        passwordHash: await hashPassword(password, salt),
+        createdAt: new Date().toISOString(),
+        profile: {
+          id,
+          name: name.trim(),
+          email: normalizeEmail(email),
+          preferences: DEFAULT_PREFERENCES,
+          tripHistory: []
+        }
+      };
+
+      await writeJson(this.userFile(id), user);
+      await writeJson(this.emailFile(user.email), { userId: id });
+      return user.profile;
+    });
+  }
+
+  /**
+   * The user's profile if the password matches. Unknown emails and wrong passwords fail alike.
+   */
+  async authenticate(email, password) {
+    const user = await this.findByEmail(email);
+    if (user) {
+      const hash = Buffer.from(await hashPassword(password, user.salt), 'hex');
+      if (crypto.timingSafeEqual(hash, Buffer.from(user.passwordHash, 'hex'))) {
+        return user.profile;
+      }
+    }
+    throw new AuthError('Invalid email or password');
+  }
+
+  async createSession(userId) {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = Date.now();
+    await writeJson(path.join(this.sessionsDir, `${hashToken(token)}.json`), {
+      userId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + SESSION_TTL_MS).toISOString()
+    });
+    return token;
+  }
+
+  /**
+   * Profile of the session's user, or null if the token is unknown or expired.
+   */
+  async resolveSession(token) {
+    const file = path.join(this.sessionsDir, `${hashToken(token)}.json`);
+    const session = await readJson(file);
+    if (!session) return null;
+
+    if (new Date(session.expiresAt).getTime() <= Date.now()) {
+      await fs.rm(file, { force: true });
+      return null;
+    }
+    const user = await this.readUser(session.userId);
+    return user ? user.profile : null;
+  }
+
+  async deleteSession(token) {
+    await fs.rm(path.join(this.sessionsDir, `${hashToken(token)}.json`), { force: true });
+  }
+
+  /**
+   * Applies profile changes. The id, email and trip history are managed by the server.
+   */
+  async updateProfile(id, { name, preferences }) {
+    return this.updateUser(id, profile => ({
+      ...profile,
+      name: typeof name === 'string' && name.trim() ? name.trim() : profile.name,
+      preferences: preferences ? { ...profile.preferences, ...pickPreferences(preferences) } : profile.preferences
+    }));
+  }
+
+  async addTrip(id, tripId) {
+    return this.updateUser(id, profile => profile.tripHistory.includes(tripId)
+      ? profile
+      : { ...profile, tripHistory: [...profile.tripHistory, tripId] });
+  }
+
+  async removeTrip(id, tripId) {
+    return this.updateUser(id, profile => ({
+      ...profile,
+      tripHistory: profile.tripHistory.filter(t => t !== tripId)
+    }));
+  }
+
+  async updateUser(id, change) {
+    return this.withLock(async () => {
+      const user = await this.readUser(id);
+      if (!user) {
+        throw new AuthError('User not found');
+      }
+      const updated = { ...user, profile: change(user.profile) };
+      await writeJson(this.userFile(id), updated);
+      return updated.profile;
+    });
+  }
+
+  /**
+   * Serializes account writes so two registrations can't claim the same email.
+   */
+  async withLock(fn) {
+    const run = this.pending.catch(() => {}).then(fn);
+    this.pending = run.catch(() => {});
+    return run;
+  }
+}
@@ -4,56 +4,73 @@
  * Validates incoming requests to prevent malformed data and security issues
  */
 
+import { isValidTripId, isValidTripStatus } from './tripStore.js';
+import { isValidEmail, MIN_PASSWORD_LENGTH, PREFERENCE_KEYS } from './userStore.js';
+import { MAX_COMMENT_LENGTH } from './feedback.js';
+
+const PACES = ['Relaxed', 'Moderate', 'Fast Paced'];
+const BUDGET_TIERS = ['Budget', 'Moderate', 'Luxury'];
+const MAX_PREFERENCE_ITEMS = 20;
+const MAX_PREFERENCE_ITEM_LENGTH = 100;
+
 /**
- * Validate Gemini generate request
+ * Validate LLM generate/stream requests.
+ * `resolveProvider(req)` returns the provider that will serve the request, or null if unavailable.
  */
-export function validateGeminiRequest(req, res, next) {
-  const { model, contents, config } = req.body || {};
-  
-  // Check required fields
-  if (!model || typeof model !== 'string') {
-    return res.status(400).json({
-      error: 'Validation Error',
-      message: 'model is required and must be a string'
-    });
-  }
-  
-  if (!contents) {
-    return res.status(400).json({
-      error: 'Validation Error',
-      message: 'contents is required'
-    });
-  }
-  
-  // Validate model name (allow gemini models)
-  const validModelPrefixes = ['gemini-'];
-  const isValidModel = validModelPrefixes.some(prefix => model.startsWith(prefix));
-
-  if (!isValidModel) {
-    return res.status(400).json({
-      error: 'Validation Error',
-      message: 'Invalid model. Must be a Gemini model (e.g., gemini-2.5-flash, gemini-3-flash-preview)'
-    });
-  }
-  
-  // Validate contents length (prevent abuse)
-  const contentsStr = typeof contents === 'string' ? contents : JSON.stringify(contents);
-  if (contentsStr.length > 50000) { // 50KB limit
-    return res.status(400).json({
-      error: 'Validation Error',
-      message: 'contents exceeds maximum length of 50KB'
-    });
-  }
-  
-  // Validate config if present
-  if (config && typeof config !== 'object') {
-    return res.status(400).json({
-      error: 'Validation Error',
-      message: 'config must be an object'
-    });
-  }
-  
-  next();
+export function createLLMRequestValidator(resolveProvider) {
+  return (req, res, next) => {
+    const { model, contents, config } = req.body || {};
+    
+    // Check required fields
+    if (!model || typeof model !== 'string') {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'model is required and must be a string'
+      });
+    }
+    
+    if (!contents) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'contents is required'
+      });
+    }
+    
+    const provider = resolveProvider(req);
+    if (!provider) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Requested LLM provider is not configured on this server'
+      });
+    }
+    
+    // Validate model name against the provider (e.g. Gemini requires gemini-* models)
+    if (!provider.isValidModel(model)) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: `Invalid model for provider ${provider.name}: ${model}`
+      });
+    }
+    
+    // Validate contents length (prevent abuse)
+    const contentsStr = typeof contents === 'string' ? contents : JSON.stringify(contents);
+    if (contentsStr.length > 50000) { // 50KB limit
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'contents exceeds maximum length of 50KB'
+      });
+    }
+    
+    // Validate config if present
+    if (config && typeof config !== 'object') {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'config must be an object'
+      });
+    }
+    
+    next();
+  };
 }
 
 /**
@@ -118,8 +135,8 @@ export function validateRequestSize(maxSizeBytes = 1024 * 1024) { // Default 1MB
  */
 export function validateContentType(allowedTypes = ['application/json']) {
   return (req, res, next) => {
-    // Skip for GET requests
-    if (req.method === 'GET' || req.method === 'HEAD') {
+    // Skip for requests without a body
+    if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'DELETE') {
       return next();
     }
     
@@ -162,3 +179,242 @@ export function validateAdminRequest(req, res, next) {
   next();
 }
 
+/**
+ * Require a signed-in user (Authorization: Bearer <session token>).
+ * Sets req.user to the user's profile and req.sessionToken to the token.
+ */
+export function createSessionAuth(userStore) {
+  return async (req, res, next) => {
+    const header = req.headers['authorization'] || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+
+    const profile = token ? await userStore.resolveSession(token).catch(() => null) : null;
+    if (!profile) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Sign in to continue'
+      });
+    }
+
+    req.user = profile;
+    req.sessionToken = token;
+    next();
+  };
+}
+
+/**
+ * Validate sign-up requests (POST /api/auth/register)
+ */
+export function validateRegisterRequest(req, res, next) {
+  const { email, password, name } = req.body || {};
+
+  if (!name || typeof name !== 'string' || !name.trim() || name.length > 100) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'name is required (max 100 characters)'
+    });
+  }
+
+  if (!isValidEmail(email)) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'A valid email is required'
+    });
+  }
+
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH || password.length > 200) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: `password must be at least ${MIN_PASSWORD_LENGTH} characters`
+    });
+  }
+
+  next();
+}
+
+/**
+ * Validate sign-in requests (POST /api/auth/login)
+ */
+export function validateLoginRequest(req, res, next) {
+  const { email, password } = req.body || {};
+
+  if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'email and password are required'
+    });
+  }
+
+  next();
+}
+
+/**
+ * Validate profile updates (PUT /api/profile)
+ */
+export function validateProfileRequest(req, res, next) {
+  const { name, preferences } = req.body || {};
+
+  if (name !== undefined && (typeof name !== 'string' || name.length > 100)) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'name must be a string (max 100 characters)'
+    });
+  }
+
+  if (preferences !== undefined && (typeof preferences !== 'object' || preferences === null || Array.isArray(preferences))) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'preferences must be an object'
+    });
+  }
+
+  const unknownKey = Object.keys(preferences || {}).find(key => !PREFERENCE_KEYS.includes(key));
+  if (unknownKey) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: `Unknown preference: ${unknownKey}`
+    });
+  }
+
+  if (preferences?.pace !== undefined && !PACES.includes(preferences.pace)) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: `preferences.pace must be one of: ${PACES.join(', ')}`
+    });
+  }
+
+  if (preferences?.budgetTier !== undefined && !BUDGET_TIERS.includes(preferences.budgetTier)) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: `preferences.budgetTier must be one of: ${BUDGET_TIERS.join(', ')}`
+    });
+  }
+
+  for (const key of ['accessibility', 'dietaryRestrictions']) {
+    if (preferences?.[key] !== undefined && !isShortStringList(preferences[key])) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: `preferences.${key} must be a list of up to ${MAX_PREFERENCE_ITEMS} strings (max ${MAX_PREFERENCE_ITEM_LENGTH} characters each)`
+      });
+    }
+  }
+
+  if (preferences?.homeCurrency !== undefined && (typeof preferences.homeCurrency !== 'string' || !/^[A-Z]{3}$/.test(preferences.homeCurrency))) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'preferences.homeCurrency must be a 3-letter ISO currency code'
+    });
+  }
+
+  next();
+}
+
+function isShortStringList(value) {
+  return Array.isArray(value)
+    && value.length <= MAX_PREFERENCE_ITEMS
+    && value.every(item => typeof item === 'string' && item.length <= MAX_PREFERENCE_ITEM_LENGTH);
+}
+
+/**
+ * Validate the plan/place a comment or vote is about
+ */
+function validateFeedbackTarget(body) {
+  const { planId, place } = body || {};
+  if (!planId || typeof planId !== 'string') {
+    return 'planId is required and must be a string';
+  }
+  if (place !== undefined && place !== null && (typeof place !== 'string' || !place.trim())) {
+    return 'place must be a non-empty string';
+  }
+  return null;
+}
+
+/**
+ * Validate comments (POST .../comments)
+ */
+export function validateCommentRequest(req, res, next) {
+  const targetError = validateFeedbackTarget(req.body);
+  if (targetError) {
+    return res.status(400).json({ error: 'Validation Error', message: targetError });
+  }
+
+  const { text } = req.body;
+  if (typeof text !== 'string' || !text.trim() || text.length > MAX_COMMENT_LENGTH) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: `text is required (max ${MAX_COMMENT_LENGTH} characters)`
+    });
+  }
+
+  next();
+}
+
+/**
+ * Validate votes (POST .../votes)
+ */
+export function validateVoteRequest(req, res, next) {
+  const targetError = validateFeedbackTarget(req.body);
+  if (targetError) {
+    return res.status(400).json({ error: 'Validation Error', message: targetError });
+  }
+
+  if (![1, -1, 0].includes(req.body.value)) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'value must be 1 (up), -1 (down) or 0 (clear)'
+    });
+  }
+
+  next();
+}
+
+/**
+ * Validate trip save requests (POST /api/trips)
+ */
+export function validateTripRequest(req, res, next) {
+  const { id, userId, status, intent, optimizedPlans, editHistory } = req.body || {};
+
+  if (!isValidTripId(id)) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'id is required and may only contain letters, digits, "_" and "-" (max 100)'
+    });
+  }
+
+  if (!intent || typeof intent !== 'object') {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'intent is required and must be an object'
+    });
+  }
+
+  if (userId !== undefined && typeof userId !== 'string') {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'userId must be a string'
+    });
+  }
+
+  if (status !== undefined && !isValidTripStatus(status)) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'status must be one of draft, confirmed, booked'
+    });
+  }
+
+  if (optimizedPlans !== undefined && !Array.isArray(optimizedPlans)) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'optimizedPlans must be an array'
+    });
+  }
+
+  if (editHistory !== undefined && (!editHistory || typeof editHistory !== 'object' || Array.isArray(editHistory))) {
+    return res.status(400).json({
+      error: 'Validation Error',
+      message: 'editHistory must be an object'
+    });
+  }
+
+  next();
+}
@@ -30,6 +30,17 @@ class MockActivitiesAdapter implements IActivitiesAdapter {
         type: 'Activity',
         estimatedCost: "$25",
         rating: 4.6,
+        // Closed on Mondays, like most museums
+        openingHours: {
+          weekly: {
+            tue: [{ open: '10:00', close: '18:00' }],
+            wed: [{ open: '10:00', close: '18:00' }],
+            thu: [{ open: '10:00', close: '18:00' }],
+            fri: [{ open: '10:00', close: '18:00' }],
+            sat: [{ open: '10:00', close: '18:00' }],
+            sun: [{ open: '10:00', close: '18:00' }],
+          }
+        },
         imageUrl: `https://picsum.photos/400/300?random=${Math.floor(Math.random() * 100)}`
       }
     ];
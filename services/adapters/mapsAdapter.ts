@@ -1,5 +1,33 @@
 import { IMapsAdapter, ADAPTER_CONFIG } from './types';
-import { Place, Coordinates } from '../../types';
+import { Place, Coordinates, OpeningHours, Weekday, RouteEstimate, TravelMode } from '../../types';
+import { estimateRoute } from '../travelEstimator';
+
+// Google Places day indices start at Sunday
+const GOOGLE_WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const ROUTES_TRAVEL_MODES: Record<TravelMode, string> = {
+  walk: 'WALK',
+  transit: 'TRANSIT',
+  drive: 'DRIVE',
+};
+
+const pad = (n: number = 0) => String(n).padStart(2, '0');
+
+/**
+ * Converts Places API `regularOpeningHours.periods` into our weekly hours.
+ */
+const toOpeningHours = (regular: any): OpeningHours | undefined => {
+  if (!regular?.periods?.length) return undefined;
+  const weekly: OpeningHours['weekly'] = {};
+  for (const period of regular.periods) {
+    if (!period.open) continue;
+    const day = GOOGLE_WEEKDAYS[period.open.day];
+    // Open 24 hours is reported as an open period without a close
+    const close = period.close ? `${pad(period.close.hour)}:${pad(period.close.minute)}` : '23:59';
+    weekly[day] = [...(weekly[day] || []), { open: `${pad(period.open.hour)}:${pad(period.open.minute)}`, close }];
+  }
+  return { weekly };
+};
 
 // --- MOCK IMPLEMENTATION ---
 class MockMapsAdapter implements IMapsAdapter {
@@ -14,7 +42,17 @@ class MockMapsAdapter implements IMapsAdapter {
         estimatedCost: "$10-20",
         rating: 4.5,
         address: "123 Mock Street, City Center",
-        coordinates: location || { lat: 0, lng: 0 }
+        coordinates: location || { lat: 0, lng: 0 },
+        openingHours: {
+          weekly: {
+            tue: [{ open: '09:00', close: '18:00' }],
+            wed: [{ open: '09:00', close: '18:00' }],
+            thu: [{ open: '09:00', close: '18:00' }],
+            fri: [{ open: '09:00', close: '21:00' }],
+            sat: [{ open: '10:00', close: '21:00' }],
+            sun: [{ open: '10:00', close: '17:00' }],
+          }
+        }
       },
       {
         name: `The Grand ${query} Hotel`,
@@ -28,11 +66,8 @@ class MockMapsAdapter implements IMapsAdapter {
     ];
   }
 
-  async getRouteInfo(origin: Coordinates, destination: Coordinates): Promise<{ distance: string; duration: string }> {
-    return {
-      distance: "5.2 km",
-      duration: "15 mins"
-    };
+  async getRouteInfo(origin: Coordinates, destination: Coordinates, mode?: TravelMode): Promise<RouteEstimate> {
+    return estimateRoute(origin, destination, mode);
   }
 }
 
@@ -60,7 +95,7 @@ class GoogleMapsAdapter implements IMapsAdapter {
         headers: {
           'Content-Type': 'application/json',
           'X-Goog-Api-Key': this.apiKey,
-          'X-Goog-FieldMask': 'places.displayName,places.formattedAddress,places.location,places.rating,places.priceLevel'
+          'X-Goog-FieldMask': 'places.displayName,places.formattedAddress,places.location,places.rating,places.priceLevel,places.regularOpeningHours'
         },
         body: JSON.stringify({
           textQuery: query,
@@ -84,7 +119,8 @@ class GoogleMapsAdapter implements IMapsAdapter {
         coordinates: {
           lat: p.location.latitude,
           lng: p.location.longitude
-        }
+        },
+        openingHours: toOpeningHours(p.regularOpeningHours)
       }));
 
     } catch (error) {
@@ -93,9 +129,39 @@ class GoogleMapsAdapter implements IMapsAdapter {
     }
   }
 
-  async getRouteInfo(origin: Coordinates, destination: Coordinates): Promise<{ distance: string; duration: string }> {
-    // In a real implementation, call Google Routes API
-    return { distance: "Unknown", duration: "Unknown" }; 
+  async getRouteInfo(origin: Coordinates, destination: Coordinates, mode?: TravelMode): Promise<RouteEstimate> {
+    // The offline estimate picks the mode and is the answer whenever the Routes API can't be used
+    const estimate = estimateRoute(origin, destination, mode);
+    if (!this.apiKey) return estimate;
+
+    const waypoint = (c: Coordinates) => ({ location: { latLng: { latitude: c.lat, longitude: c.lng } } });
+    try {
+      const response = await fetch('https://routes.googleapis.com/directions/v2:computeRoutes', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Goog-Api-Key': this.apiKey,
+          'X-Goog-FieldMask': 'routes.distanceMeters,routes.duration'
+        },
+        body: JSON.stringify({
+          origin: waypoint(origin),
+          destination: waypoint(destination),
+          travelMode: ROUTES_TRAVEL_MODES[estimate.mode]
+        })
+      });
+
+      const route = (await response.json()).routes?.[0];
+      if (!route?.duration) return estimate;
+
+      return {
+        mode: estimate.mode,
+        distanceKm: Math.round((route.distanceMeters || 0) / 100) / 10,
+        durationMinutes: Math.max(1, Math.round(parseInt(route.duration, 10) / 60)) // e.g. "754s"
+      };
+    } catch (error) {
+      console.error("[GoogleMapsAdapter] Routes error:", error);
+      return estimate;
+    }
   }
 }
 
@@ -1,4 +1,4 @@
-import { Place, Coordinates, Flight } from '../../types';
+import { Place, Coordinates, Flight, RouteEstimate, TravelMode } from '../../types';
 
 export type AdapterMode = 'MOCK' | 'LIVE';
 
@@ -9,9 +9,9 @@ export interface IMapsAdapter {
   searchPlaces(query: string, location?: Coordinates, radiusMeters?: number): Promise<Place[]>;
   
   /**
-   * Get basic routing info between two points
+   * Get distance and travel time between two points. The mode is chosen from the distance when omitted.
    */
-  getRouteInfo(origin: Coordinates, destination: Coordinates): Promise<{ distance: string; duration: string }>;
+  getRouteInfo(origin: Coordinates, destination: Coordinates, mode?: TravelMode): Promise<RouteEstimate>;
 }
 
 export interface IActivitiesAdapter {
@@ -0,0 +1,62 @@
+import { UserProfile } from "../types";
+
+/**
+ * Session client for the backend's /api/auth endpoints.
+ * The session token is kept in localStorage and sent as a Bearer token with every API call.
+ */
+
+const STORAGE_KEY_SESSION = "vibetrip_session";
+
+const AUTH_API_BASE = "/api/auth";
+
+interface AuthResponse {
+  token: string;
+  profile: UserProfile;
+}
+
+export const getSessionToken = (): string | null => localStorage.getItem(STORAGE_KEY_SESSION);
+
+export const authHeaders = (): Record<string, string> => {
+  const token = getSessionToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+const requestSession = async (path: string, body: Record<string, string>): Promise<UserProfile> => {
+  const response = await fetch(`${AUTH_API_BASE}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.message || data?.error || `Sign-in failed (${response.status})`);
+  }
+
+  const { token, profile } = data as AuthResponse;
+  localStorage.setItem(STORAGE_KEY_SESSION, token);
+  console.log(`[Auth] Signed in as ${profile.id}`);
+  return profile;
+};
+
+export const register = (name: string, email: string, password: string): Promise<UserProfile> =>
+  requestSession("/register", { name, email, password });
+
+export const login = (email: string, password: string): Promise<UserProfile> =>
+  requestSession("/login", { email, password });
+
+/**
+ * Ends the session on the server. The local token is dropped even if the server is unreachable.
+ */
+export const logout = async (): Promise<void> => {
+  try {
+    await fetch(`${AUTH_API_BASE}/logout`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+    });
+  } catch (error) {
+    // Signing out must always work locally; the server session simply expires
+    console.error("[Auth] Failed to end the server session", error);
+  } finally {
+    localStorage.removeItem(STORAGE_KEY_SESSION);
+  }
+};
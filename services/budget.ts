@@ -0,0 +1,140 @@
+import { CurrencyInfo, DayPlan, DiscoveryResult, Itinerary, Place, TripIntent } from "../types";
+import { convertAmount, countTravelers } from "./costEstimator";
+import { calculateDayTotal, estimatePlaceCost, resolvePrimaryCurrency } from "./localOptimizer";
+import { candidatesForLeg } from "./legs";
+import { scheduleItinerary } from "./scheduler";
+import { enforceOpeningHours } from "./openingHours";
+
+/**
+ * Budget Ceiling
+ *
+ * Compares a plan's computed total with the spending limit the traveler stated. The limit is
+ * spread evenly over the days to point at the ones that overspend. Fitting a plan to the limit
+ * swaps its most expensive stops for the cheapest unused discovery candidates of the same kind
+ * (and city), without an LLM call, until the plan fits or nothing cheaper is left.
+ */
+
+export interface DayOverrun {
+  day: number;
+  total: number;
+  allowance: number; // The day's even share of the limit
+  overBy: number;
+}
+
+export interface BudgetCheck {
+  limit: number; // For the whole group, in the plan's currency
+  total: number;
+  overBy: number; // 0 when the plan fits
+  days: DayOverrun[]; // Days over their share of the limit
+}
+
+export interface BudgetFit {
+  itinerary: Itinerary;
+  swaps: string[]; // "Day 2: X → Y"
+}
+
+type SlotKey = 'morning' | 'afternoon' | 'evening';
+
+const SLOT_KEYS: SlotKey[] = ['morning', 'afternoon', 'evening'];
+
+const USD: CurrencyInfo = { code: 'USD', symbol: '$', rateToUSD: 1 };
+
+const placeKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * The stated limit for the whole group in the plan's currency, or null without a limit
+ * (or when its currency has no known rate).
+ */
+export const budgetLimitFor = (intent: TripIntent, itinerary: Itinerary): number | null => {
+  const limit = intent.budgetLimit;
+  if (!limit) return null;
+
+  const to = resolvePrimaryCurrency(intent, itinerary.currency);
+  const from = limit.currency === to.code ? to : intent.currencyRates[limit.currency] || (limit.currency === 'USD' ? USD : null);
+  if (!from) return null;
+
+  const amount = limit.per === 'person' ? limit.amount * countTravelers(intent.travelers) : limit.amount;
+  return Math.round(convertAmount(amount, from, to));
+};
+
+export const checkBudget = (itinerary: Itinerary, intent: TripIntent): BudgetCheck | null => {
+  const limit = budgetLimitFor(intent, itinerary);
+  if (limit === null) return null;
+
+  const allowance = limit / Math.max(1, itinerary.days.length);
+  const days = itinerary.days
+    .filter(day => day.totalEstimatedCost > allowance)
+    .map(day => ({
+      day: day.day,
+      total: day.totalEstimatedCost,
+      allowance: Math.round(allowance),
+      overBy: Math.round(day.totalEstimatedCost - allowance),
+    }));
+
+  return {
+    limit,
+    total: itinerary.totalEstimatedCost,
+    overBy: Math.max(0, itinerary.totalEstimatedCost - limit),
+    days,
+  };
+};
+
+// Replacements come from candidates of the same kind as the stop
+const poolFor = (place: Place, day: DayPlan, discovery: DiscoveryResult): Place[] => {
+  const pool = day.leg ? candidatesForLeg(discovery, day.leg) : discovery;
+  if (place.type === 'Hotel') return pool.accommodations || [];
+  if (place.type === 'Food') return pool.dining || [];
+  return pool.activities || [];
+};
+
+/**
+ * The plan with its priciest stops swapped for cheaper candidates until it fits the limit,
+ * or null when there is no limit, the plan already fits, or no swap saves anything.
+ */
+export const fitToBudget = (itinerary: Itinerary, intent: TripIntent, discovery: DiscoveryResult | null): BudgetFit | null => {
+  const limit = budgetLimitFor(intent, itinerary);
+  if (limit === null || !discovery || itinerary.totalEstimatedCost <= limit) return null;
+
+  const currency = resolvePrimaryCurrency(intent, itinerary.currency);
+  const costOf = (place: Place) => estimatePlaceCost(place, intent, currency);
+  const used = new Set(itinerary.days.flatMap(day => SLOT_KEYS.flatMap(key => day[key])).map(p => placeKey(p.name)));
+
+  let days = itinerary.days;
+  let total = itinerary.totalEstimatedCost;
+  const swaps: string[] = [];
+
+  // Every swap lowers the total and uses up a candidate, so this terminates
+  while (total > limit) {
+    const stops = days
+      .flatMap((day, dayIdx) => SLOT_KEYS.flatMap(key => day[key].map(place => ({ dayIdx, key, place, cost: costOf(place) }))))
+      .sort((a, b) => b.cost - a.cost);
+
+    let swapped = false;
+    for (const stop of stops) {
+      const day = days[stop.dayIdx];
+      const replacement = poolFor(stop.place, day, discovery)
+        .filter(candidate => !used.has(placeKey(candidate.name)))
+        .map(candidate => ({ candidate, cost: costOf(candidate) }))
+        .filter(option => option.cost < stop.cost)
+        .sort((a, b) => a.cost - b.cost)[0];
+      if (!replacement) continue;
+
+      const updated: DayPlan = {
+        ...day,
+        [stop.key]: day[stop.key].map(p => p === stop.place ? replacement.candidate : p),
+      };
+      const dayTotal = calculateDayTotal(updated, intent, currency);
+      total += dayTotal - day.totalEstimatedCost;
+      days = days.map((d, idx) => idx === stop.dayIdx ? { ...updated, totalEstimatedCost: dayTotal } : d);
+      used.add(placeKey(replacement.candidate.name));
+      swaps.push(`Day ${day.day}: ${stop.place.name} → ${replacement.candidate.name}`);
+      swapped = true;
+      break;
+    }
+    if (!swapped) break;
+  }
+
+  if (swaps.length === 0) return null;
+  const fitted = scheduleItinerary({ ...itinerary, days, totalEstimatedCost: Math.round(total) });
+  return { itinerary: enforceOpeningHours(fitted, intent, discovery, 'flag'), swaps };
+};
@@ -70,8 +70,9 @@ export class CircuitBreaker {
       const result = await fn();
       this.onSuccess();
       return result;
-    } catch (error) {
-      this.onFailure();
+    } catch (error: any) {
+      // A cancelled request says nothing about the service's health
+      if (error?.name !== 'AbortError') this.onFailure();
       throw error;
     }
   }
@@ -145,8 +146,8 @@ export class CircuitBreaker {
 }
 
 // Create circuit breakers for different services
-export const geminiCircuitBreaker = new CircuitBreaker({
-  name: 'Gemini API',
+export const llmCircuitBreaker = new CircuitBreaker({
+  name: 'LLM API',
   failureThreshold: 5,      // Open after 5 consecutive failures
   successThreshold: 2,      // Close after 2 consecutive successes
   timeout: 60000            // Wait 60 seconds before retry
@@ -5,6 +5,27 @@
  * and validates required environment variables at startup.
  */
 
+export type OptimizerMode = 'llm' | 'local' | 'llm_local_repair';
+export type OpeningHoursPolicy = 'flag' | 'fix';
+export type LLMProviderName = 'gemini' | 'openai-compatible';
+export type AgentName = 'intent' | 'discovery' | 'optimization' | 'refine';
+
+// Default model per agent for each provider (override with LLM_MODEL / LLM_MODEL_<AGENT>)
+const DEFAULT_MODELS: Record<LLMProviderName, Record<AgentName, string>> = {
+  'gemini': {
+    intent: 'gemini-2.5-flash',
+    discovery: 'gemini-2.5-flash',
+    optimization: 'gemini-3-flash-preview',
+    refine: 'gemini-2.0-flash',
+  },
+  'openai-compatible': {
+    intent: 'llama3.1',
+    discovery: 'llama3.1',
+    optimization: 'llama3.1',
+    refine: 'llama3.1',
+  },
+};
+
 interface AppConfig {
   // API Keys
   geminiApiKey: string;
@@ -36,6 +57,22 @@ interface AppConfig {
     backoffBaseMs: number;
   };
   
+  // LLM Provider (served through the backend, see server/providers)
+  llm: {
+    provider: LLMProviderName;
+    models: Record<AgentName, string>;
+  };
+  
+  // Itinerary Optimizer
+  // - llm: the LLM plans the trip, local planner is used only as fallback
+  // - local: deterministic local planner only (no LLM call)
+  // - llm_local_repair: the LLM plans, local planner re-routes and recalculates totals
+  // Opening hours policy: 'fix' moves or swaps stops that hit closed places, 'flag' only warns
+  optimizer: {
+    mode: OptimizerMode;
+    openingHoursPolicy: OpeningHoursPolicy;
+  };
+  
   // Logging
   logging: {
     level: 'debug' | 'info' | 'warn' | 'error';
@@ -52,6 +89,11 @@ class ConfigService {
   }
   
   private loadConfig(): AppConfig {
+    const llmProvider = this.getEnv('LLM_PROVIDER', 'gemini') as LLMProviderName;
+    const providerModels = DEFAULT_MODELS[llmProvider] || DEFAULT_MODELS['gemini'];
+    const modelFor = (agent: AgentName) =>
+      this.getEnv(`LLM_MODEL_${agent.toUpperCase()}`, this.getEnv('LLM_MODEL', providerModels[agent]));
+
     return {
       // API Keys - Required
       geminiApiKey: this.getEnv('GEMINI_API_KEY', ''),
@@ -83,6 +125,23 @@ class ConfigService {
         backoffBaseMs: parseInt(this.getEnv('BACKOFF_BASE_MS', '1000'), 10),
       },
       
+      // LLM Provider
+      llm: {
+        provider: llmProvider,
+        models: {
+          intent: modelFor('intent'),
+          discovery: modelFor('discovery'),
+          optimization: modelFor('optimization'),
+          refine: modelFor('refine'),
+        },
+      },
+      
+      // Itinerary Optimizer
+      optimizer: {
+        mode: (this.getEnv('OPTIMIZER_MODE', 'llm') as OptimizerMode),
+        openingHoursPolicy: (this.getEnv('OPENING_HOURS_POLICY', 'fix') as OpeningHoursPolicy),
+      },
+      
       // Logging
       logging: {
         level: (this.getEnv('LOG_LEVEL', 'info') as 'debug' | 'info' | 'warn' | 'error'),
@@ -125,6 +184,20 @@ class ConfigService {
       errors.push('MAX_RETRIES must be non-negative');
     }
     
+    // Validate LLM provider
+    if (!(this.config.llm.provider in DEFAULT_MODELS)) {
+      errors.push(`LLM_PROVIDER must be one of ${Object.keys(DEFAULT_MODELS).join(', ')}, got ${this.config.llm.provider}`);
+    }
+    
+    // Validate optimizer mode
+    if (!['llm', 'local', 'llm_local_repair'].includes(this.config.optimizer.mode)) {
+      errors.push(`OPTIMIZER_MODE must be one of llm, local, llm_local_repair, got ${this.config.optimizer.mode}`);
+    }
+
+    if (!['flag', 'fix'].includes(this.config.optimizer.openingHoursPolicy)) {
+      errors.push(`OPENING_HOURS_POLICY must be one of flag, fix, got ${this.config.optimizer.openingHoursPolicy}`);
+    }
+    
     if (errors.length > 0) {
       throw new Error(`Configuration validation failed:\n${errors.join('\n')}`);
     }
@@ -163,6 +236,14 @@ class ConfigService {
     return { ...this.config.logging };
   }
 
+  get llm() {
+    return { ...this.config.llm, models: { ...this.config.llm.models } };
+  }
+
+  get optimizer() {
+    return { ...this.config.optimizer };
+  }
+
   // Check if a feature is enabled
   isFeatureEnabled(feature: keyof AppConfig['features']): boolean {
     return this.config.features[feature];
@@ -1,9 +1,10 @@
-import { CurrencyInfo } from "../types";
+import { CurrencyInfo, CostUnit, Place, PlaceCost, Travelers } from "../types";
 
 export interface CostEstimationResult {
   minCost: number;
   maxCost: number;
   currency: string;
+  unit: CostUnit;
   formatted: string;
 }
 
@@ -29,25 +30,49 @@ const BASE_COSTS: Record<string, [number, number]> = {
   'default': [10, 40]
 };
 
-const formatLocalAmount = (amount: number, currency: CurrencyInfo): string => {
+const COST_UNITS: Record<string, CostUnit> = {
+  'Hotel': 'per-night',
+  'Food': 'per-person',
+  'Activity': 'per-person',
+  'Landmark': 'per-person',
+  'default': 'per-person'
+};
+
+// Share of the adult price that children and seniors pay for per-person costs
+const TRAVELER_DISCOUNTS: Record<string, { children: number; seniors: number }> = {
+  'Food': { children: 0.6, seniors: 1.0 },    // Kids' menus; restaurants rarely price by age otherwise
+  'default': { children: 0.5, seniors: 0.8 }  // Concession tickets
+};
+
+// A hotel room sleeps two adults or seniors, plus up to two children sharing with them
+const ADULTS_PER_ROOM = 2;
+const GUESTS_PER_ROOM = 4;
+
+const UNIT_SUFFIXES: Record<CostUnit, string> = {
+  'per-person': '',
+  'per-night': '/night',
+  'per-group': ' per group'
+};
+
+const formatLocalAmount = (amount: number, currencyCode: string): string => {
   // Rounding Rules
   let rounded = amount;
   
   // Zero-decimal currencies (JPY, KRW, VND, etc)
-  if (['JPY', 'KRW', 'VND', 'HUF', 'IDR'].includes(currency.code)) {
+  if (['JPY', 'KRW', 'VND', 'HUF', 'IDR'].includes(currencyCode)) {
     rounded = Math.round(amount / 100) * 100; // Round to nearest 100
     return new Intl.NumberFormat('en-US', { 
         style: 'currency', 
-        currency: currency.code, 
+        currency: currencyCode, 
         maximumFractionDigits: 0 
     }).format(rounded);
   }
   
   // High-value currencies (KWD, BHD) -> keep precision
-  if (['KWD', 'BHD', 'OMR'].includes(currency.code)) {
+  if (['KWD', 'BHD', 'OMR'].includes(currencyCode)) {
      return new Intl.NumberFormat('en-US', { 
         style: 'currency', 
-        currency: currency.code, 
+        currency: currencyCode, 
         maximumFractionDigits: 3 
     }).format(rounded);
   }
@@ -58,7 +83,7 @@ const formatLocalAmount = (amount: number, currency: CurrencyInfo): string => {
 
   return new Intl.NumberFormat('en-US', { 
     style: 'currency', 
-    currency: currency.code, 
+    currency: currencyCode, 
     maximumFractionDigits: 0 
   }).format(rounded);
 };
@@ -107,18 +132,107 @@ export const estimateActivityCost = (
     maxCost = Math.min(maxCost, 15 * currencyInfo.rateToUSD);
   }
 
-  // 6. Formatting
-  const minStr = formatLocalAmount(minCost, currencyInfo);
-  const maxStr = formatLocalAmount(maxCost, currencyInfo);
-  
-  let formattedString = `${minStr}-${maxStr}`;
-  if (minCost <= 1 && maxCost <= 1) formattedString = "Free";
-  else if (minCost <= 1) formattedString = `Free-${maxStr}`;
+  const unit = COST_UNITS[activityType] || COST_UNITS['default'];
 
   return {
     minCost: Math.round(minCost),
     maxCost: Math.round(maxCost),
     currency: currencyInfo.code,
-    formatted: formattedString
+    unit,
+    // 6. Formatting
+    formatted: formatCost({ min: minCost, max: maxCost, currency: currencyInfo.code, unit })
   };
-};
\ No newline at end of file
+};
+
+export const toPlaceCost = (estimate: CostEstimationResult): PlaceCost => ({
+  min: estimate.minCost,
+  max: estimate.maxCost,
+  currency: estimate.currency,
+  unit: estimate.unit
+});
+
+/**
+ * Display form of a cost range, e.g. "¥3,000-¥5,000", "Free-$20" or "$120-$220/night".
+ */
+export const formatCost = (cost: PlaceCost): string => {
+  const maxStr = formatLocalAmount(cost.max, cost.currency);
+  const suffix = UNIT_SUFFIXES[cost.unit];
+
+  if (cost.min <= 1 && cost.max <= 1) return "Free";
+  if (cost.min <= 1) return `Free-${maxStr}${suffix}`;
+  return `${formatLocalAmount(cost.min, cost.currency)}-${maxStr}${suffix}`;
+};
+
+/**
+ * Parses a display cost string ("¥3,000-¥5,000", "Free-$20", "$250/night") back into a numeric range.
+ * Returns null when no amount can be recovered (e.g. "$$").
+ */
+export const parseCostRange = (formatted: string | undefined): { min: number; max: number } | null => {
+  if (!formatted) return null;
+  if (/^\s*free\s*$/i.test(formatted)) return { min: 0, max: 0 };
+
+  const amounts = (formatted.match(/\d[\d,]*(?:\.\d+)?/g) || [])
+    .map(n => parseFloat(n.replace(/,/g, '')))
+    .filter(n => Number.isFinite(n));
+
+  if (amounts.length === 0) return null;
+
+  const startsFree = /^\s*free/i.test(formatted);
+  const min = startsFree ? 0 : Math.min(...amounts);
+  const max = Math.max(...amounts);
+  return { min, max };
+};
+
+/**
+ * The place's numeric cost. Places without one (older plans, adapters, LLM output) get it
+ * recovered from the display string; the unit is read from a "/night" or "per group" suffix,
+ * and hotels are priced per night.
+ */
+export const placeCost = (place: Place, fallbackCurrency: string): PlaceCost | null => {
+  if (place.cost) return place.cost;
+  const range = parseCostRange(place.estimatedCost);
+  if (!range) return null;
+
+  let unit: CostUnit = place.type === 'Hotel' ? 'per-night' : 'per-person';
+  if (/(\/|per\s*)night/i.test(place.estimatedCost)) unit = 'per-night';
+  else if (/(\/|per\s*)group/i.test(place.estimatedCost)) unit = 'per-group';
+
+  return { ...range, currency: place.currencyCode || fallbackCurrency, unit };
+};
+
+export const countTravelers = (travelers: Travelers): number =>
+  travelers.adults + travelers.children + travelers.seniors;
+
+export const roomsNeeded = (travelers: Travelers): number =>
+  Math.max(
+    1,
+    Math.ceil((travelers.adults + travelers.seniors) / ADULTS_PER_ROOM),
+    Math.ceil(countTravelers(travelers) / GUESTS_PER_ROOM)
+  );
+
+/**
+ * How many times a cost is paid by the whole group: once per group, once per hotel room,
+ * or once per traveler with child and senior discounts.
+ */
+export const groupCostMultiplier = (cost: PlaceCost, placeType: string, travelers: Travelers): number => {
+  if (cost.unit === 'per-group') return 1;
+  if (cost.unit === 'per-night') return roomsNeeded(travelers);
+
+  const discount = TRAVELER_DISCOUNTS[placeType] || TRAVELER_DISCOUNTS['default'];
+  const multiplier = travelers.adults + travelers.children * discount.children + travelers.seniors * discount.seniors;
+  return multiplier > 0 ? multiplier : 1;
+};
+
+/**
+ * Share of a group total per traveler.
+ */
+export const perPersonAmount = (groupAmount: number, travelers: Travelers): number =>
+  groupAmount / Math.max(1, countTravelers(travelers));
+
+/**
+ * Converts an amount between two currencies using USD-based rates (1 USD = rateToUSD local).
+ */
+export const convertAmount = (amount: number, from: CurrencyInfo, to: CurrencyInfo): number => {
+  if (from.code === to.code || !from.rateToUSD || !to.rateToUSD) return amount;
+  return (amount / from.rateToUSD) * to.rateToUSD;
+};
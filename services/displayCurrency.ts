@@ -0,0 +1,107 @@
+import { CurrencyInfo, DayPlan, Itinerary, Place, TripIntent } from "../types";
+import { convertAmount, formatCost, placeCost } from "./costEstimator";
+import { getRateTable, tableRate } from "./exchangeRates";
+
+/**
+ * Display Currency
+ *
+ * Shows a plan in another currency (usually the traveler's home currency). Every place cost,
+ * day total and trip total is converted with the intent's rates, or the exchange-rate table for
+ * currencies the trip does not use. The plan itself is never changed: the converted copy is only
+ * rendered and exported.
+ */
+
+// Currencies a traveler can pick as home currency
+export const DISPLAY_CURRENCIES = Object.keys(getRateTable().rates).sort();
+
+const symbolFor = (code: string): string => {
+  try {
+    const parts = new Intl.NumberFormat('en-US', { style: 'currency', currency: code }).formatToParts(0);
+    return parts.find(part => part.type === 'currency')?.value || code;
+  } catch {
+    return code;
+  }
+};
+
+/**
+ * Rate info for a currency, from the trip's rates first and the table otherwise. Null when
+ * neither knows the currency.
+ */
+export const currencyInfoFor = (code: string, intent?: TripIntent | null): CurrencyInfo | null => {
+  const known = intent?.currencyRates[code];
+  if (known) return known;
+  if (code === 'USD') return { code, symbol: '$', rateToUSD: 1 };
+  const rate = tableRate(code);
+  return rate === null ? null : { code, symbol: symbolFor(code), rateToUSD: rate, rateSource: 'table', rateAsOf: getRateTable().asOf };
+};
+
+/**
+ * Whether a plan in `from` can be shown in `to`.
+ */
+export const canConvert = (from: string, to: string, intent?: TripIntent | null): boolean =>
+  from !== to && !!currencyInfoFor(from, intent) && !!currencyInfoFor(to, intent);
+
+const round = (amount: number): number => Math.round(amount);
+
+/**
+ * The plan with every amount converted into `code`, and the intent with that currency's rate
+ * added so totals recomputed from the copy (budget checks, spend by category) use it. Returns
+ * both unchanged when either currency's rate is unknown.
+ */
+export const inDisplayCurrency = (
+  itinerary: Itinerary,
+  code: string,
+  intent?: TripIntent | null
+): { itinerary: Itinerary; intent: TripIntent | null } => {
+  const from = currencyInfoFor(itinerary.currency, intent);
+  const to = currencyInfoFor(code, intent);
+  if (!from || !to || from.code === to.code) return { itinerary, intent: intent || null };
+
+  const convert = (amount: number, source: CurrencyInfo = from) => convertAmount(amount, source, to);
+
+  // Converted once per place object, so schedule entries keep pointing at the slot's places
+  const converted = new Map<Place, Place>();
+  const convertPlace = (place: Place): Place => {
+    const existing = converted.get(place);
+    if (existing) return existing;
+
+    const cost = placeCost(place, itinerary.currency);
+    const source = cost ? currencyInfoFor(cost.currency, intent) : null;
+    let result = place;
+    if (cost && source) {
+      // Unrounded: formatCost rounds for display, and small amounts must not collapse to "Free"
+      const convertedCost = { ...cost, min: convert(cost.min, source), max: convert(cost.max, source), currency: to.code };
+      result = { ...place, cost: convertedCost, currencyCode: to.code, estimatedCost: formatCost(convertedCost) };
+    }
+    converted.set(place, result);
+    return result;
+  };
+
+  const convertDay = (day: DayPlan): DayPlan => ({
+    ...day,
+    morning: day.morning.map(convertPlace),
+    afternoon: day.afternoon.map(convertPlace),
+    evening: day.evening.map(convertPlace),
+    ...(day.schedule ? { schedule: day.schedule.map(stop => ({ ...stop, place: convertPlace(stop.place) })) } : {}),
+    totalEstimatedCost: round(convert(day.totalEstimatedCost)),
+  });
+
+  return {
+    itinerary: {
+      ...itinerary,
+      currency: to.code,
+      totalEstimatedCost: round(convert(itinerary.totalEstimatedCost)),
+      days: itinerary.days.map(convertDay),
+    },
+    intent: intent ? { ...intent, currencyRates: { ...intent.currencyRates, [to.code]: to } } : null,
+  };
+};
+
+/**
+ * A single amount in the plan's currency converted for display, e.g. the totals on the variant tabs.
+ */
+export const convertTotal = (amount: number, from: string, to: string, intent?: TripIntent | null): number => {
+  const source = currencyInfoFor(from, intent);
+  const target = currencyInfoFor(to, intent);
+  return source && target ? round(convertAmount(amount, source, target)) : amount;
+};
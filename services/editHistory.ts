@@ -0,0 +1,77 @@
+import { EditHistory, Itinerary, ItineraryHistory } from "../types";
+
+/**
+ * Itinerary Undo/Redo
+ *
+ * Each plan keeps its own stack of earlier (and undone) snapshots, keyed by the id of the
+ * plan currently shown. A snapshot can carry a different id than the plan it replaced
+ * (a re-plan creates new plans), so every step moves the stacks to the id now in view.
+ * The history is saved with the trip, so it survives a reload of the draft.
+ */
+
+export const MAX_UNDO_STEPS = 10;
+
+const emptyHistory = (): ItineraryHistory => ({ past: [], future: [] });
+
+const historyFor = (history: EditHistory, id: string): ItineraryHistory => history[id] || emptyHistory();
+
+const rekey = (history: EditHistory, fromId: string, toId: string, entry: ItineraryHistory): EditHistory => {
+  const { [fromId]: _replaced, ...rest } = history;
+  return { ...rest, [toId]: entry };
+};
+
+export const canUndo = (history: EditHistory, id: string): boolean => historyFor(history, id).past.length > 0;
+
+export const canRedo = (history: EditHistory, id: string): boolean => historyFor(history, id).future.length > 0;
+
+/**
+ * Records that `before` was replaced by `after`. Any undone steps are dropped.
+ */
+export const recordEdit = (history: EditHistory, before: Itinerary, after: Itinerary): EditHistory => {
+  const entry = historyFor(history, before.id);
+  return rekey(history, before.id, after.id, {
+    past: [...entry.past, before].slice(-MAX_UNDO_STEPS),
+    future: [],
+  });
+};
+
+/**
+ * Records a re-plan of all variants, pairing old and new plans by position.
+ * Stacks of plans that have no successor are dropped.
+ */
+export const recordReplan = (history: EditHistory, before: Itinerary[], after: Itinerary[]): EditHistory =>
+  after.reduce<EditHistory>((next, plan, idx) => {
+    const previous = before[idx];
+    if (!previous) return next;
+    const entry = historyFor(history, previous.id);
+    return { ...next, [plan.id]: { past: [...entry.past, previous].slice(-MAX_UNDO_STEPS), future: [] } };
+  }, {});
+
+/**
+ * The plan to show instead of `current` and the updated history, or null if there is nothing to undo.
+ */
+export const undoEdit = (history: EditHistory, current: Itinerary): { itinerary: Itinerary; history: EditHistory } | null => {
+  const entry = historyFor(history, current.id);
+  const itinerary = entry.past[entry.past.length - 1];
+  if (!itinerary) return null;
+  return {
+    itinerary,
+    history: rekey(history, current.id, itinerary.id, {
+      past: entry.past.slice(0, -1),
+      future: [current, ...entry.future],
+    }),
+  };
+};
+
+export const redoEdit = (history: EditHistory, current: Itinerary): { itinerary: Itinerary; history: EditHistory } | null => {
+  const entry = historyFor(history, current.id);
+  const itinerary = entry.future[0];
+  if (!itinerary) return null;
+  return {
+    itinerary,
+    history: rekey(history, current.id, itinerary.id, {
+      past: [...entry.past, current],
+      future: entry.future.slice(1),
+    }),
+  };
+};
@@ -0,0 +1,62 @@
+import { CurrencyInfo, RateDeviation } from "../types";
+import bundledTable from "../data/exchangeRates.json";
+
+/**
+ * Exchange Rates
+ *
+ * Offline rate table (data/exchangeRates.json) that replaces the "approximate" rates the intent
+ * model guesses. Update the table by editing the JSON file and bumping its version and as-of
+ * date. Currencies missing from the table keep the model's rate.
+ */
+
+export interface RateTable {
+  version: number;
+  asOf: string; // YYYY-MM-DD
+  base: string; // Rates are units of each currency per 1 unit of the base (USD)
+  source?: string;
+  rates: Record<string, number>;
+}
+
+// Model rates further than this from the table are reported on the intent
+export const RATE_DEVIATION_THRESHOLD = 0.1;
+
+const rateTable: RateTable = bundledTable;
+
+export const getRateTable = (): RateTable => rateTable;
+
+/**
+ * The table's rate for a currency (1 USD = x), or null when the table does not have it.
+ */
+export const tableRate = (code: string): number | null => {
+  const rate = rateTable.rates[code.toUpperCase()];
+  return typeof rate === 'number' && rate > 0 ? rate : null;
+};
+
+/**
+ * Fills or overrides each currency's rate from the table. Returns the rates to use and the
+ * currencies whose model rate deviated from the table by more than the threshold.
+ */
+export const applyRateTable = (
+  rates: Record<string, CurrencyInfo>
+): { rates: Record<string, CurrencyInfo>; deviations: RateDeviation[] } => {
+  const deviations: RateDeviation[] = [];
+  const resolved: Record<string, CurrencyInfo> = {};
+
+  for (const [code, info] of Object.entries(rates)) {
+    const rate = tableRate(code);
+    if (rate === null) {
+      resolved[code] = { ...info, rateSource: 'model' };
+      continue;
+    }
+
+    if (info.rateToUSD > 0) {
+      const deviation = Math.abs(info.rateToUSD - rate) / rate;
+      if (deviation > RATE_DEVIATION_THRESHOLD) {
+        deviations.push({ code, modelRate: info.rateToUSD, tableRate: rate, deviation: Math.round(deviation * 100) / 100 });
+      }
+    }
+    resolved[code] = { ...info, rateToUSD: rate, rateSource: 'table', rateAsOf: rateTable.asOf };
+  }
+
+  return { rates: resolved, deviations };
+};
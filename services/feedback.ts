@@ -0,0 +1,102 @@
+import { FeedbackTarget, Itinerary, TimeOfDay, TripComment, TripFeedback } from "../types";
+
+/**
+ * Trip Feedback Helpers
+ *
+ * Tallies the group's votes and comments on plans and places (stored by the backend,
+ * see server/feedback.js) and turns them into context for the refine agent.
+ * Places are matched by name, case-insensitively.
+ */
+
+export interface VoteTally {
+  up: number;
+  down: number;
+  score: number; // up - down
+  mine: 1 | -1 | 0; // The current user's vote
+}
+
+export interface PlaceScore extends VoteTally {
+  place: string;
+  day: number;
+  slot: TimeOfDay;
+}
+
+const nameKey = (name: string | null) => (name || '').trim().toLowerCase();
+
+export const isSameTarget = (a: FeedbackTarget, b: FeedbackTarget): boolean =>
+  a.planId === b.planId && nameKey(a.place) === nameKey(b.place);
+
+export const tallyVotes = (feedback: TripFeedback, target: FeedbackTarget, userId?: string): VoteTally => {
+  const votes = feedback.votes.filter(v => isSameTarget(v, target));
+  const up = votes.filter(v => v.value === 1).length;
+  const down = votes.length - up;
+  return {
+    up,
+    down,
+    score: up - down,
+    mine: votes.find(v => v.userId === userId)?.value || 0,
+  };
+};
+
+export const commentsOn = (feedback: TripFeedback, target: FeedbackTarget): TripComment[] =>
+  feedback.comments
+    .filter(c => isSameTarget(c, target))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+/**
+ * Vote tallies for the places of the plan that received any votes, in visiting order.
+ */
+export const placeScores = (feedback: TripFeedback, plan: Itinerary): PlaceScore[] => {
+  const seen = new Set<string>();
+  const scores: PlaceScore[] = [];
+  for (const day of plan.days || []) {
+    const slots: [TimeOfDay, typeof day.morning][] = [['Morning', day.morning], ['Afternoon', day.afternoon], ['Evening', day.evening]];
+    for (const [slot, places] of slots) {
+      for (const place of places || []) {
+        if (seen.has(nameKey(place.name))) continue;
+        seen.add(nameKey(place.name));
+        const tally = tallyVotes(feedback, { planId: plan.id, place: place.name });
+        if (tally.up + tally.down > 0) scores.push({ ...tally, place: place.name, day: day.day, slot });
+      }
+    }
+  }
+  return scores;
+};
+
+/**
+ * Places with the lowest net score, as long as that score is negative.
+ */
+export const lowestVotedPlaces = (feedback: TripFeedback, plan: Itinerary): PlaceScore[] => {
+  const negative = placeScores(feedback, plan).filter(s => s.score < 0);
+  if (!negative.length) return [];
+  const lowest = Math.min(...negative.map(s => s.score));
+  return negative.filter(s => s.score === lowest);
+};
+
+/**
+ * The group's votes and comments on the plan as plain text for the refine agent's prompt.
+ */
+export const describeFeedback = (feedback: TripFeedback, plan: Itinerary): string => {
+  const lines: string[] = [];
+
+  const planTally = tallyVotes(feedback, { planId: plan.id, place: null });
+  if (planTally.up + planTally.down > 0) {
+    lines.push(`Whole plan: ${planTally.up} up, ${planTally.down} down`);
+  }
+  for (const comment of commentsOn(feedback, { planId: plan.id, place: null })) {
+    lines.push(`Comment on the whole plan by ${comment.userName}: "${comment.text}"`);
+  }
+
+  const scored = new Map(placeScores(feedback, plan).map(s => [nameKey(s.place), s]));
+  const commented = feedback.comments.filter(c => c.planId === plan.id && c.place);
+  const places = [...new Set([...scored.keys(), ...commented.map(c => nameKey(c.place))])];
+  for (const key of places) {
+    const score = scored.get(key);
+    const notes = commented.filter(c => nameKey(c.place) === key).map(c => `${c.userName}: "${c.text}"`);
+    const name = score?.place || commented.find(c => nameKey(c.place) === key)!.place;
+    const votes = score ? `score ${score.score} (${score.up} up, ${score.down} down)` : 'no votes';
+    lines.push(`- ${name}${score ? ` (Day ${score.day} ${score.slot.toLowerCase()})` : ''}: ${votes}${notes.length ? `; comments: ${notes.join('; ')}` : ''}`);
+  }
+
+  return lines.join('\n');
+};
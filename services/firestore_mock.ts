@@ -1,159 +1,187 @@
-import { Trip, TripIntent, DiscoveryResult, Itinerary, UserProfile } from "../types";
+import { Trip, EditHistory, TripSummary, TripShare, SharedTrip, TripFeedback, FeedbackTarget, TripIntent, DiscoveryResult, Itinerary, UserProfile } from "../types";
+import { authHeaders } from "./auth";
 
-const STORAGE_KEY_LATEST = "vibetrip_trips_latest";
-const STORAGE_KEY_HISTORY = "vibetrip_trips_history";
-const STORAGE_KEY_USERS = "vibetrip_users";
+const API_BASE = "/api";
+
+// Trips, their versions and user profiles live on the backend (see server/tripStore.js
+// and server/userStore.js). Every call is made as the signed-in user.
+
+const readApiError = async (response: Response): Promise<Error> => {
+  try {
+    const body = await response.json();
+    return new Error(body?.message || body?.error || `API error: ${response.status}`);
+  } catch {
+    return new Error(`API error: ${response.status}`);
+  }
+};
+
+const requestApi = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...authHeaders(), ...(init?.headers || {}) },
+  });
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+};
 
 // --- TRIP OPERATIONS ---
 
 /**
  * Saves a trip, automatically handling versioning.
  * If the trip ID exists, it creates a new version.
- * If not, it starts at version 1.
+ * If not, it starts at version 1 owned by the signed-in user.
  */
 export const saveTrip = async (data: {
   id: string;
-  userId?: string;
   status?: Trip['status'];
   intent: TripIntent;
   discovery?: DiscoveryResult | null;
   optimizedPlans?: Itinerary[];
   selectedPlanId?: string;
+  editHistory?: EditHistory;
 }): Promise<Trip> => {
-  await new Promise(resolve => setTimeout(resolve, 400)); // Simulate network
-
-  const latestStore = JSON.parse(localStorage.getItem(STORAGE_KEY_LATEST) || "{}");
-  const historyStore = JSON.parse(localStorage.getItem(STORAGE_KEY_HISTORY) || "{}");
-  
-  // Update User History if new trip
-  const userId = data.userId || 'user_guest';
-  if (!latestStore[data.id]) {
-      const userProfile = await getUserProfile(userId);
-      if (userProfile && !userProfile.tripHistory.includes(data.id)) {
-          userProfile.tripHistory.push(data.id);
-          await saveUserProfile(userProfile);
-      }
-  }
-
-  const existing = latestStore[data.id] as Trip | undefined;
-  const now = new Date().toISOString();
-
-  let newTrip: Trip;
-
-  if (existing) {
-    // UPDATE: Increment version
-    newTrip = {
-      ...existing,
-      ...data, // Overwrite with new data
-      version: existing.version + 1,
-      updatedAt: now,
-      // Ensure complex objects are updated if provided, else keep existing
-      discovery: data.discovery !== undefined ? data.discovery : existing.discovery,
-      optimizedPlans: data.optimizedPlans !== undefined ? data.optimizedPlans : existing.optimizedPlans,
-    };
-  } else {
-    // CREATE: Version 1
-    newTrip = {
-      id: data.id,
-      userId: userId,
-      version: 1,
-      createdAt: now,
-      updatedAt: now,
-      status: data.status || 'draft',
-      intent: data.intent,
-      discovery: data.discovery || null,
-      optimizedPlans: data.optimizedPlans || [],
-      selectedPlanId: data.selectedPlanId
-    };
-  }
-
-  // 1. Update Latest Pointer
-  latestStore[newTrip.id] = newTrip;
-  localStorage.setItem(STORAGE_KEY_LATEST, JSON.stringify(latestStore));
-
-  // 2. Append to History
-  const history = historyStore[newTrip.id] || [];
-  history.push(newTrip);
-  historyStore[newTrip.id] = history;
-  localStorage.setItem(STORAGE_KEY_HISTORY, JSON.stringify(historyStore));
+  const trip = await requestApi<Trip>("/trips", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
 
-  console.log(`[TripStore] Saved Trip ${newTrip.id} (v${newTrip.version})`);
-  return newTrip;
+  console.log(`[TripStore] Saved Trip ${trip.id} (v${trip.version})`);
+  return trip;
 };
 
 /**
  * Retrieves the latest version of a trip.
  */
 export const getTrip = async (id: string): Promise<Trip | null> => {
-  await new Promise(resolve => setTimeout(resolve, 200));
-  const store = JSON.parse(localStorage.getItem(STORAGE_KEY_LATEST) || "{}");
-  return store[id] || null;
+  const response = await fetch(`${API_BASE}/trips/${encodeURIComponent(id)}`, { headers: authHeaders() });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+  return response.json();
 };
 
 /**
- * Retrieves full history of a trip.
+ * Lists the signed-in user's trips (latest versions), most recently updated first.
  */
-export const getTripHistory = async (id: string): Promise<Trip[]> => {
-  await new Promise(resolve => setTimeout(resolve, 200));
-  const store = JSON.parse(localStorage.getItem(STORAGE_KEY_HISTORY) || "{}");
-  return store[id] || [];
+export const listTrips = async (): Promise<TripSummary[]> => requestApi<TripSummary[]>("/trips");
+
+/**
+ * Deletes a trip with all its versions.
+ */
+export const deleteTrip = async (id: string): Promise<void> => {
+  await requestApi<void>(`/trips/${encodeURIComponent(id)}`, { method: "DELETE" });
+  console.log(`[TripStore] Deleted Trip ${id}`);
 };
 
+/**
+ * Retrieves full history of a trip.
+ */
+export const getTripHistory = async (id: string): Promise<Trip[]> =>
+  requestApi<Trip[]>(`/trips/${encodeURIComponent(id)}/versions`);
+
 /**
  * Rolls back a trip to a specific version.
  * Creates a NEW version that is a copy of the target version.
  */
 export const rollbackTrip = async (id: string, targetVersion: number): Promise<Trip> => {
   console.log(`[TripStore] Rolling back ${id} to v${targetVersion}...`);
-  const history = await getTripHistory(id);
-  const targetSnapshot = history.find(t => t.version === targetVersion);
+  return requestApi<Trip>(`/trips/${encodeURIComponent(id)}/rollback`, {
+    method: "POST",
+    body: JSON.stringify({ version: targetVersion }),
+  });
+};
 
-  if (!targetSnapshot) {
-    throw new Error(`Version ${targetVersion} not found for trip ${id}`);
-  }
+// --- SHARE LINKS ---
 
-  // Create new version based on the old snapshot
-  // We explicitly destructure to avoid copying the old version number directly
-  const { version: oldVersion, updatedAt: oldUpdated, ...tripData } = targetSnapshot;
+/**
+ * The trip's current share link, or null if it isn't shared.
+ */
+export const getTripShare = async (id: string): Promise<TripShare | null> => {
+  const response = await fetch(`${API_BASE}/trips/${encodeURIComponent(id)}/share`, { headers: authHeaders() });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+  return response.json();
+};
 
-  // Call saveTrip to handle the logic of creating the new version (latest + 1)
-  return saveTrip({
-    ...tripData,
-    id: id
+/**
+ * Shares one plan of the trip read-only. Sharing again keeps the link and switches the plan.
+ */
+export const shareTrip = async (id: string, planId: string): Promise<TripShare> =>
+  requestApi<TripShare>(`/trips/${encodeURIComponent(id)}/share`, {
+    method: "POST",
+    body: JSON.stringify({ planId }),
   });
+
+export const revokeTripShare = async (id: string): Promise<void> =>
+  requestApi<void>(`/trips/${encodeURIComponent(id)}/share`, { method: "DELETE" });
+
+/**
+ * Public view behind a share link, or null if the link is invalid or revoked.
+ */
+export const getSharedTrip = async (token: string): Promise<SharedTrip | null> => {
+  const response = await fetch(`${API_BASE}/shared/${encodeURIComponent(token)}`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+  return response.json();
 };
 
+export const shareUrl = (token: string): string => `${window.location.origin}/share/${token}`;
+
+// --- COMMENTS & VOTES ---
+// The owner works on the trip directly; companions go through the share link.
+
+export type FeedbackScope = { tripId: string } | { shareToken: string };
+
+const feedbackPath = (scope: FeedbackScope) =>
+  'tripId' in scope ? `/trips/${encodeURIComponent(scope.tripId)}` : `/shared/${encodeURIComponent(scope.shareToken)}`;
+
+export const getTripFeedback = async (scope: FeedbackScope): Promise<TripFeedback> =>
+  requestApi<TripFeedback>(`${feedbackPath(scope)}/feedback`);
+
+export const addTripComment = async (scope: FeedbackScope, target: FeedbackTarget, text: string): Promise<TripFeedback> =>
+  requestApi<TripFeedback>(`${feedbackPath(scope)}/comments`, {
+    method: "POST",
+    body: JSON.stringify({ ...target, text }),
+  });
+
+/**
+ * Votes up (1) or down (-1) on the target; 0 takes the vote back.
+ */
+export const voteOnTrip = async (scope: FeedbackScope, target: FeedbackTarget, value: 1 | -1 | 0): Promise<TripFeedback> =>
+  requestApi<TripFeedback>(`${feedbackPath(scope)}/votes`, {
+    method: "POST",
+    body: JSON.stringify({ ...target, value }),
+  });
+
+export const deleteTripComment = async (scope: FeedbackScope, commentId: string): Promise<TripFeedback> =>
+  requestApi<TripFeedback>(`${feedbackPath(scope)}/comments/${encodeURIComponent(commentId)}`, { method: "DELETE" });
+
 // --- USER PROFILE OPERATIONS ---
 
-export const getUserProfile = async (userId: string): Promise<UserProfile | null> => {
-    const store = JSON.parse(localStorage.getItem(STORAGE_KEY_USERS) || "{}");
-    let profile = store[userId];
-
-    // Initialize default if not found
-    if (!profile && userId === 'user_guest') {
-        profile = {
-            id: 'user_guest',
-            name: 'Guest Traveler',
-            email: 'guest@vibetrip.ai',
-            preferences: {
-                pace: 'Moderate',
-                budgetTier: 'Moderate',
-                accessibility: [],
-                dietaryRestrictions: []
-            },
-            tripHistory: []
-        };
-        store[userId] = profile;
-        localStorage.setItem(STORAGE_KEY_USERS, JSON.stringify(store));
-    }
-
-    return profile || null;
+/**
+ * Profile of the signed-in user, or null without a valid session.
+ */
+export const getUserProfile = async (): Promise<UserProfile | null> => {
+  try {
+    return await requestApi<UserProfile>("/profile");
+  } catch (error) {
+    console.log('[UserStore] No active session', error);
+    return null;
+  }
 };
 
 export const saveUserProfile = async (profile: UserProfile): Promise<UserProfile> => {
-    const store = JSON.parse(localStorage.getItem(STORAGE_KEY_USERS) || "{}");
-    store[profile.id] = profile;
-    localStorage.setItem(STORAGE_KEY_USERS, JSON.stringify(store));
-    console.log(`[UserStore] Saved profile for ${profile.name}`);
-    return profile;
-};
\ No newline at end of file
+  const saved = await requestApi<UserProfile>("/profile", {
+    method: "PUT",
+    body: JSON.stringify({ name: profile.name, preferences: profile.preferences }),
+  });
+  console.log(`[UserStore] Saved profile for ${saved.name}`);
+  return saved;
+};
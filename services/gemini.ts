@@ -1,11 +1,21 @@
-import { Type } from "@google/genai";
-import { Itinerary, TripIntent, DiscoveryResult, Place, OptimizationResult, DayPlan, CurrencyInfo, UserProfile } from "../types";
+import { Itinerary, TripIntent, DiscoveryResult, Place, OptimizationResult, CurrencyInfo, UserProfile, RoutedChatMessage } from "../types";
 import { z } from "zod";
-import { estimateActivityCost } from "./costEstimator";
+import { estimateActivityCost, toPlaceCost } from "./costEstimator";
 import { agentLogger } from "./logger";
-import { config } from "./config";
-import { geminiCircuitBreaker } from "./circuitBreaker";
+import { config, OptimizerMode } from "./config";
+import { llmCircuitBreaker } from "./circuitBreaker";
+import { trackTokenUsage } from "./metrics";
+import { llmProvider } from "./llm/registry";
+import { SchemaType, JsonSchema } from "./llm/schema";
+import { LLMRequest, LLMResult } from "./llm/types";
 import { intentCache, discoveryCache } from "./cache";
+import { optimizeLocally, repairItinerary, withComputedTotals, LocalOptimizerOptions } from "./localOptimizer";
+import { extractPartialItineraries } from "./streamParser";
+import { scheduleItinerary } from "./scheduler";
+import { enforceOpeningHours } from "./openingHours";
+import { getTripLegs, isMultiCity, allocateLegDays, intentForLeg, applyLegSchedule, describeLegs } from "./legs";
+import { describePlanFacts } from "./planFacts";
+import { applyRateTable } from "./exchangeRates";
 
 // --- UTILITIES: RESILIENCE & RETRY ---
 
@@ -20,27 +30,55 @@ const CONFIG = {
   REFINE_TIMEOUT_MS: config.timeouts.refine
 };
 
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+/**
+ * True when the user cancelled the run (as opposed to a timeout or a provider failure).
+ */
+export const isCancelledError = (error: any): boolean => error?.name === 'AbortError';
 
 /**
  * Executes an async operation with timeout and exponential backoff.
+ * Every attempt gets its own abort signal: a timeout aborts the in-flight request instead of
+ * leaving it running, and aborting `signal` (the user's Cancel) stops the run without retrying.
  */
 async function runWithRetry<T>(
   operationName: string,
-  fn: () => Promise<T>,
+  fn: (signal: AbortSignal) => Promise<T>,
   retries = CONFIG.RETRIES,
-  timeoutMs = CONFIG.TIMEOUT_MS
+  timeoutMs = CONFIG.TIMEOUT_MS,
+  signal?: AbortSignal
 ): Promise<T> {
   let lastError: any;
 
   for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    signal?.throwIfAborted();
+    const controller = new AbortController();
+    const cancel = () => controller.abort(signal!.reason);
+    signal?.addEventListener('abort', cancel, { once: true });
+    const timer = setTimeout(
+      () => controller.abort(new Error(`${operationName} timed out after ${timeoutMs}ms`)),
+      timeoutMs
+    );
+
     try {
-      const timeoutPromise = new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error(`${operationName} timed out after ${timeoutMs}ms`)), timeoutMs)
+      const aborted = new Promise<never>((_, reject) =>
+        controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true })
       );
 
-      return await Promise.race([fn(), timeoutPromise]);
+      return await Promise.race([fn(controller.signal), aborted]);
     } catch (error: any) {
+      if (isCancelledError(error) || signal?.aborted) {
+        console.info(`[${operationName}] Cancelled`);
+        throw signal?.reason ?? error;
+      }
+
       lastError = error;
       const isLastAttempt = attempt > retries;
       
@@ -49,8 +87,11 @@ async function runWithRetry<T>(
       if (!isLastAttempt) {
         // Exponential backoff: 1s, 2s, 4s...
         const backoff = CONFIG.BACKOFF_BASE_MS * Math.pow(2, attempt - 1);
-        await wait(backoff);
+        await wait(backoff, signal);
       }
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
     }
   }
   
@@ -58,112 +99,46 @@ async function runWithRetry<T>(
   throw new Error(`We're experiencing high traffic. ${operationName} failed after multiple attempts. (${lastError.message})`);
 }
 
-// --- BACKEND BRIDGE: GEMINI VIA NODE SERVER ---
+// --- BACKEND BRIDGE: LLM PROVIDER VIA NODE SERVER ---
 
-const GEMINI_API_BASE = "/api/gemini";
-
-interface BackendGenerateRequest {
-	model: string;
-	contents: any;
-	config?: any;
+function recordUsage(request: LLMRequest, result: LLMResult): string {
+	if (result.usage) {
+		trackTokenUsage(llmProvider.name, request.model, result.usage);
+	}
+	return result.text;
 }
 
-async function callGeminiGenerate({ model, contents, config }: BackendGenerateRequest): Promise<string> {
+async function callLLMGenerate(request: LLMRequest): Promise<string> {
 	// Wrap in circuit breaker to prevent cascading failures
-	return geminiCircuitBreaker.execute(async () => {
-		const response = await fetch(`${GEMINI_API_BASE}/generate`, {
-			method: "POST",
-			headers: { "Content-Type": "application/json" },
-			body: JSON.stringify({ model, contents, config }),
-		});
-
-		if (!response.ok) {
-			let message = `Gemini backend error: ${response.status}`;
-			let errorDetails: any = null;
-
-			try {
-				const errBody = await response.json();
-				errorDetails = errBody;
-
-				// Handle different error response formats
-				if (errBody && typeof errBody.error === "string") {
-					message = errBody.error;
-				} else if (errBody && typeof errBody.error === "object") {
-					// Gemini API returns detailed error objects
-					const apiError = errBody.error;
-					if (apiError.message) {
-						message = apiError.message;
-					}
-					if (apiError.code) {
-						message = `[${apiError.code}] ${message}`;
-					}
-				} else if (errBody && errBody.message) {
-					message = errBody.message;
-				}
-			} catch {
-				// ignore JSON parse failure
-			}
-
-			const error: any = new Error(message);
-			error.details = errorDetails;
-			throw error;
-		}
-
-		const data = await response.json();
-		if (!data || typeof data.text !== "string") {
-			throw new Error("Gemini backend returned invalid response");
-		}
-		return data.text;
-	});
+	return llmCircuitBreaker.execute(async () => recordUsage(request, await llmProvider.generate(request)));
+}
+
+/**
+ * Streams a generation from the active provider.
+ * `onText` receives the accumulated text after every chunk; the full text is returned when the stream ends.
+ */
+async function callLLMStream(request: LLMRequest, onText: (accumulated: string) => void): Promise<string> {
+	return llmCircuitBreaker.execute(async () => recordUsage(request, await llmProvider.stream(request, onText)));
 }
 
 /**
  * Fallback Generator for Optimization Agent.
  * Used when the LLM fails to structure the itinerary but we have valid candidates.
+ * Delegates to the deterministic local planner and flags the result as low confidence.
  */
-const generateFallbackItinerary = (intent: TripIntent, discovery: DiscoveryResult): OptimizationResult => {
-  const days: DayPlan[] = [];
-  const { activities, dining } = discovery;
-
-  // Pick first available currency from intent
-  const primaryCurrencyCode = Object.keys(intent.currencyRates)[0] || 'USD';
-
-  // Simple round-robin distribution
-  for (let i = 1; i <= intent.durationDays; i++) {
-    // Safe access with modulo
-    const morning = activities.length > 0 ? [activities[(i - 1) % activities.length]] : [];
-    const afternoon = activities.length > 1 ? [activities[(i + Math.floor(activities.length / 2)) % activities.length]] : [];
-    const evening = dining.length > 0 ? [dining[(i - 1) % dining.length]] : [];
-
-    days.push({
-      day: i,
-      title: `Day ${i}: Highlights of ${intent.destination}`,
-      morning,
-      afternoon,
-      evening,
-      totalEstimatedCost: 0 // Fallback doesn't recalculate strict totals
-    });
-  }
-
-  const fallbackItinerary: Itinerary = {
-    id: `fallback_${Date.now()}`,
-    title: "Essential Trip Plan (Auto-Generated)",
-    description: "A streamlined itinerary based on your top interests. (Generated via fallback logic due to high demand)",
-    tags: ["Simple", "Highlights"],
-    totalEstimatedCost: 0,
-    currency: primaryCurrencyCode,
-    days: days,
-    reasoning: {
-      vibeAnalysis: [],
-      constraintLog: ["Optimization service was busy, applied standard distribution logic."],
-      selectedAssumptions: ["Standard pacing applied", "Selected top rated candidates"]
-    }
-  };
+const generateFallbackItinerary = (intent: TripIntent, discovery: DiscoveryResult, options: LocalOptimizerOptions): OptimizationResult => {
+  const local = optimizeLocally(intent, discovery, options);
 
   return {
-    itineraries: [fallbackItinerary],
+    itineraries: local.itineraries.map(it => ({
+      ...it,
+      reasoning: it.reasoning && {
+        ...it.reasoning,
+        constraintLog: ["Optimization service was busy, applied local route planning.", ...it.reasoning.constraintLog]
+      }
+    })),
     confidenceScore: 0.2, // Low confidence triggers "ConfidenceCheck" in UI
-    assumptions: ["System fallback: Simple logic used due to AI timeout."]
+    assumptions: ["System fallback: Local planner used due to AI timeout.", ...local.assumptions]
   };
 };
 
@@ -175,7 +150,18 @@ export const IntentZodSchema = z.object({
   startDate: z.string().nullable(),
   endDate: z.string().nullable(),
   durationDays: z.number().int().min(1).default(3),
+  legs: z.array(z.object({
+      city: z.string().min(1),
+      nights: z.number().int().min(0),
+      arrivalDate: z.string().nullable().optional(),
+      departureDate: z.string().nullable().optional()
+  })).optional(),
   budgetLevel: z.enum(["Budget", "Moderate", "Luxury"]),
+  budgetLimit: z.object({
+      amount: z.number().positive(),
+      currency: z.string().length(3),
+      per: z.enum(["trip", "person"])
+  }).nullable().optional(),
   travelers: z.object({
     adults: z.number().int().min(1).default(1),
     children: z.number().int().min(0).default(0),
@@ -197,7 +183,7 @@ export const IntentZodSchema = z.object({
  * AGENT 1: INTENT PARSER
  * Extracts structured data from natural language chat with strict Zod validation.
  */
-export const parseIntentAgent = async (chatHistory: string, userProfile?: UserProfile | null): Promise<TripIntent> => {
+export const parseIntentAgent = async (chatHistory: string, userProfile?: UserProfile | null, signal?: AbortSignal): Promise<TripIntent> => {
   // Check cache first
   const cacheKey = `intent:${chatHistory}:${userProfile?.id || 'anonymous'}`;
   const cached = intentCache.get(cacheKey);
@@ -207,7 +193,7 @@ export const parseIntentAgent = async (chatHistory: string, userProfile?: UserPr
   }
 
   const logId = agentLogger.start("IntentParser", { chatHistory, userProfile });
-  const model = "gemini-2.5-flash";
+  const model = config.llm.models.intent;
 
   // Construct profile context string
   const profileContext = userProfile ? `
@@ -229,66 +215,92 @@ export const parseIntentAgent = async (chatHistory: string, userProfile?: UserPr
 
     Rules:
     - Extract specific details: Destination, Dates, Duration, Budget, Travelers, Vibes, and Constraints.
+    - **Legs**: List every city the traveler will stay in, in travel order, with the number of nights and arrival/departure dates when known.
+      - Single-city trips have exactly one leg.
+      - For multi-city trips, set 'destination' to a short summary (e.g. 'Lisbon & Porto').
+    - **Budget Limit**: Only when the traveler names an amount (e.g. "under $3000 total", "€400 each"), set 'budgetLimit' with the amount, its ISO currency and whether it is for the whole trip or per person. Never invent one.
     - If details are missing, make reasonable assumptions based on the User Profile Defaults first, then general logic.
     - **Currency Detection**: Identify the local currency for the destination(s). 
       - Provide the ISO code (e.g., 'JPY').
       - Provide the symbol (e.g., '¥').
-      - Provide an **approximate** exchange rate: How many of the Local Currency equals 1 USD? (e.g., JPY rateToUSD = 150).
+      - Provide an **approximate** exchange rate (it is checked against a bundled rate table): How many of the Local Currency equals 1 USD? (e.g., JPY rateToUSD = 150).
       - If multiple countries, provide rates for all of them.
     - **CRITICAL**: Populate the 'assumptions' array with every guess you made.
     - **CRITICAL**: Provide a 'confidenceScore' (0.0 to 1.0).
     - Return strictly JSON matching the requested schema.
   `;
 
-  const apiSchema = {
-    type: Type.OBJECT,
+  const apiSchema: JsonSchema = {
+    type: SchemaType.OBJECT,
     properties: {
-      destination: { type: Type.STRING },
-      startDate: { type: Type.STRING, description: "YYYY-MM-DD or null" },
-      endDate: { type: Type.STRING, description: "YYYY-MM-DD or null" },
-      durationDays: { type: Type.INTEGER },
-      budgetLevel: { type: Type.STRING, enum: ["Budget", "Moderate", "Luxury"] },
+      destination: { type: SchemaType.STRING },
+      startDate: { type: SchemaType.STRING, description: "YYYY-MM-DD or null" },
+      endDate: { type: SchemaType.STRING, description: "YYYY-MM-DD or null" },
+      durationDays: { type: SchemaType.INTEGER },
+      legs: {
+        type: SchemaType.ARRAY,
+        description: "Ordered cities of the trip. Example: [{city:'Lisbon', nights:3}, {city:'Porto', nights:2}]",
+        items: {
+          type: SchemaType.OBJECT,
+          properties: {
+            city: { type: SchemaType.STRING },
+            nights: { type: SchemaType.INTEGER },
+            arrivalDate: { type: SchemaType.STRING, description: "YYYY-MM-DD or null" },
+            departureDate: { type: SchemaType.STRING, description: "YYYY-MM-DD or null" },
+          },
+          required: ['city', 'nights'],
+        },
+      },
+      budgetLevel: { type: SchemaType.STRING, enum: ["Budget", "Moderate", "Luxury"] },
+      budgetLimit: {
+        type: SchemaType.OBJECT,
+        description: "Spending limit the traveler stated; omit when none was named",
+        properties: {
+          amount: { type: SchemaType.NUMBER },
+          currency: { type: SchemaType.STRING, description: "ISO currency code of the amount" },
+          per: { type: SchemaType.STRING, enum: ["trip", "person"] },
+        },
+        required: ['amount', 'currency', 'per'],
+      },
       travelers: {
-        type: Type.OBJECT,
+        type: SchemaType.OBJECT,
         properties: {
-          adults: { type: Type.INTEGER },
-          children: { type: Type.INTEGER },
-          seniors: { type: Type.INTEGER },
+          adults: { type: SchemaType.INTEGER },
+          children: { type: SchemaType.INTEGER },
+          seniors: { type: SchemaType.INTEGER },
         }
       },
-      vibes: { type: Type.ARRAY, items: { type: Type.STRING } },
-      constraints: { type: Type.ARRAY, items: { type: Type.STRING } },
-      confidenceScore: { type: Type.NUMBER, description: "0.0 to 1.0" },
-      assumptions: { type: Type.ARRAY, items: { type: Type.STRING } },
+      vibes: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+      constraints: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+      confidenceScore: { type: SchemaType.NUMBER, description: "0.0 to 1.0" },
+      assumptions: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
       currencies: {
-        type: Type.ARRAY,
+        type: SchemaType.ARRAY,
         description: "Array of currencies for the destination(s). Example: [{code:'EUR', symbol:'€', rateToUSD: 0.92}]",
         items: {
-          type: Type.OBJECT,
+          type: SchemaType.OBJECT,
           properties: {
-            code: { type: Type.STRING, description: "ISO currency code (e.g. 'EUR', 'JPY')" },
-            symbol: { type: Type.STRING, description: "Currency symbol (e.g. '€', '¥')" },
-            rateToUSD: { type: Type.NUMBER, description: "Exchange rate: 1 USD = X local currency" },
+            code: { type: SchemaType.STRING, description: "ISO currency code (e.g. 'EUR', 'JPY')" },
+            symbol: { type: SchemaType.STRING, description: "Currency symbol (e.g. '€', '¥')" },
+            rateToUSD: { type: SchemaType.NUMBER, description: "Exchange rate: 1 USD = X local currency" },
           },
           required: ['code', 'symbol', 'rateToUSD'],
         },
       }
     },
-    required: ["destination", "durationDays", "budgetLevel", "travelers", "vibes", "confidenceScore", "assumptions", "currencies"]
+    required: ["destination", "durationDays", "legs", "budgetLevel", "travelers", "vibes", "confidenceScore", "assumptions", "currencies"]
   };
 
   try {
     const result = await runWithRetry(
       "IntentParser",
-      async () => {
-        const text = await callGeminiGenerate({
+      async (attemptSignal) => {
+        const text = await callLLMGenerate({
           model,
+          signal: attemptSignal,
           contents: `History: ${chatHistory}\n\nExtract the trip intent.`,
-          config: {
-            systemInstruction,
-            responseMimeType: "application/json",
-            responseSchema: apiSchema
-          }
+          systemInstruction,
+          responseSchema: apiSchema
         });
 
         const parsedJson = JSON.parse(text);
@@ -321,12 +333,34 @@ export const parseIntentAgent = async (chatHistory: string, userProfile?: UserPr
           currencyRates['USD'] = { code: 'USD', symbol: '$', rateToUSD: 1 };
         }
 
+        // The bundled rate table wins over the model's approximate rates
+        const { rates, deviations } = applyRateTable(currencyRates);
+        if (deviations.length > 0) {
+          console.warn(`[IntentParser] Model exchange rates off the table: ${deviations.map(d => `${d.code} ${d.modelRate} vs ${d.tableRate}`).join(', ')}`);
+        }
+
+        // Normalize legs; a missing list means a single-city trip
+        const legs = (data.legs || []).map(leg => ({
+          city: leg.city,
+          nights: leg.nights,
+          arrivalDate: leg.arrivalDate ?? null,
+          departureDate: leg.departureDate ?? null
+        }));
+
         // Return with transformed currencyRates
-        const { currencies, ...rest } = data;
-        return { ...rest, currencyRates } as TripIntent;
+        const { currencies, budgetLimit, ...rest } = data;
+        const intent = {
+          ...rest,
+          ...(budgetLimit ? { budgetLimit: { ...budgetLimit, currency: budgetLimit.currency.toUpperCase() } } : {}),
+          legs,
+          currencyRates: rates,
+          ...(deviations.length > 0 ? { rateDeviations: deviations } : {})
+        } as TripIntent;
+        return { ...intent, legs: getTripLegs(intent) };
       },
       CONFIG.RETRIES,
-      CONFIG.INTENT_TIMEOUT_MS
+      CONFIG.INTENT_TIMEOUT_MS,
+      signal
     );
 
     agentLogger.success(logId, result, result.confidenceScore);
@@ -349,7 +383,11 @@ export const parseIntentAgent = async (chatHistory: string, userProfile?: UserPr
  * AGENT 2: DISCOVERY AGENT
  * Retrieves a raw list of candidates (places, hotels, dining) based on intent.
  */
-export const discoveryAgent = async (intent: TripIntent): Promise<DiscoveryResult> => {
+export const discoveryAgent = async (intent: TripIntent, signal?: AbortSignal): Promise<DiscoveryResult> => {
+  if (isMultiCity(intent)) {
+    return discoverLegs(intent, signal);
+  }
+
   // Check cache first - use destination and key intent properties as cache key
   const cacheKey = `discovery:${intent.destination}:${intent.durationDays}:${intent.budgetLevel}:${intent.vibes.join(',')}`;
   const cached = discoveryCache.get(cacheKey);
@@ -359,35 +397,66 @@ export const discoveryAgent = async (intent: TripIntent): Promise<DiscoveryResul
   }
 
   const logId = agentLogger.start("DiscoveryAgent", intent);
-  const model = "gemini-2.5-flash";
+  const model = config.llm.models.discovery;
 
-  const placeSchema = {
-    type: Type.OBJECT,
+  const openingPeriodSchema: JsonSchema = {
+    type: SchemaType.OBJECT,
     properties: {
-      name: { type: Type.STRING },
-      description: { type: Type.STRING },
-      type: { type: Type.STRING, enum: ['Activity', 'Food', 'Hotel', 'Landmark'] },
-      estimatedCost: { type: Type.STRING }, 
-      currencyCode: { type: Type.STRING, description: "ISO code of currency for this place" },
+      open: { type: SchemaType.STRING, description: "HH:MM, 24h" },
+      close: { type: SchemaType.STRING, description: "HH:MM, 24h; earlier than open when closing after midnight" }
+    }
+  };
+
+  const placeSchema: JsonSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+      name: { type: SchemaType.STRING },
+      description: { type: SchemaType.STRING },
+      type: { type: SchemaType.STRING, enum: ['Activity', 'Food', 'Hotel', 'Landmark'] },
+      estimatedCost: { type: SchemaType.STRING }, 
+      currencyCode: { type: SchemaType.STRING, description: "ISO code of currency for this place" },
       coordinates: {
-        type: Type.OBJECT,
+        type: SchemaType.OBJECT,
         properties: {
-          lat: { type: Type.NUMBER },
-          lng: { type: Type.NUMBER },
+          lat: { type: SchemaType.NUMBER },
+          lng: { type: SchemaType.NUMBER },
         }
       },
-      imageUrl: { type: Type.STRING, description: "URL of an image representing this place, relevant to the destination or activity" }
+      imageUrl: { type: SchemaType.STRING, description: "URL of an image representing this place, relevant to the destination or activity" },
+      openingHours: {
+        type: SchemaType.OBJECT,
+        description: "Regular opening hours; omit a weekday when the place is closed that day",
+        properties: {
+          weekly: {
+            type: SchemaType.OBJECT,
+            properties: Object.fromEntries(
+              ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'].map(day => [day, { type: SchemaType.ARRAY, items: openingPeriodSchema }])
+            )
+          },
+          closures: {
+            type: SchemaType.ARRAY,
+            description: "Known special closures (holidays, renovations) during the trip",
+            items: {
+              type: SchemaType.OBJECT,
+              properties: {
+                date: { type: SchemaType.STRING, description: "YYYY-MM-DD" },
+                reason: { type: SchemaType.STRING }
+              }
+            }
+          }
+        }
+      }
     }
   };
 
-  const schema = {
-    type: Type.OBJECT,
+  const schema: JsonSchema = {
+    type: SchemaType.OBJECT,
     properties: {
-      activities: { type: Type.ARRAY, items: placeSchema },
-      dining: { type: Type.ARRAY, items: placeSchema },
-      accommodations: { type: Type.ARRAY, items: placeSchema },
-      confidenceScore: { type: Type.NUMBER, description: "0.0 to 1.0" },
-      assumptions: { type: Type.ARRAY, items: { type: Type.STRING } }
+      activities: { type: SchemaType.ARRAY, items: placeSchema },
+      dining: { type: SchemaType.ARRAY, items: placeSchema },
+      accommodations: { type: SchemaType.ARRAY, items: placeSchema },
+      confidenceScore: { type: SchemaType.NUMBER, description: "0.0 to 1.0" },
+      assumptions: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } }
     },
     required: ["activities", "dining", "accommodations", "confidenceScore", "assumptions"]
   };
@@ -395,21 +464,20 @@ export const discoveryAgent = async (intent: TripIntent): Promise<DiscoveryResul
   try {
     const result = await runWithRetry(
       "DiscoveryAgent",
-      async () => {
-        const text = await callGeminiGenerate({
+      async (attemptSignal) => {
+        const text = await callLLMGenerate({
           model,
-          contents: `Find candidates for a ${intent.durationDays}-day trip to ${intent.destination}. Budget: ${intent.budgetLevel}. Vibe: ${intent.vibes.join(", ")}. Provide approximate lat/lng coordinates, local currency code, and relevant image URLs for each place.`,
-          config: {
-            systemInstruction: "You are an expert Travel Scout. Find specific, real places. For each place, provide a relevant image URL that represents the destination or activity.",
-            responseMimeType: "application/json",
-            responseSchema: schema
-          }
+          signal: attemptSignal,
+          contents: `Find candidates for a ${intent.durationDays}-day trip to ${intent.destination}. Budget: ${intent.budgetLevel}. Vibe: ${intent.vibes.join(", ")}. ${intent.startDate ? ` Dates: ${intent.startDate} to ${intent.endDate || 'open'}.` : ''} Provide approximate lat/lng coordinates, local currency code, opening hours (and any closures on the travel dates), and relevant image URLs for each place.`,
+          systemInstruction: "You are an expert Travel Scout. Find specific, real places. For each place, provide a relevant image URL that represents the destination or activity.",
+          responseSchema: schema
         });
 
         return JSON.parse(text) as DiscoveryResult;
       },
       CONFIG.RETRIES,
-      CONFIG.DISCOVERY_TIMEOUT_MS
+      CONFIG.DISCOVERY_TIMEOUT_MS,
+      signal
     );
 
     // --- ENRICHMENT LAYER ---
@@ -427,6 +495,7 @@ export const discoveryAgent = async (intent: TripIntent): Promise<DiscoveryResul
           currencyInfo
       );
       
+      place.cost = toPlaceCost(estimation);
       place.estimatedCost = estimation.formatted;
       place.currencyCode = currencyInfo.code;
     };
@@ -448,55 +517,167 @@ export const discoveryAgent = async (intent: TripIntent): Promise<DiscoveryResul
   }
 };
 
+/**
+ * Multi-city discovery: one pass per leg, with every candidate tagged with its leg's city.
+ */
+const discoverLegs = async (intent: TripIntent, signal?: AbortSignal): Promise<DiscoveryResult> => {
+  const schedule = allocateLegDays(intent);
+  const merged: DiscoveryResult = { activities: [], dining: [], accommodations: [], confidenceScore: 1, assumptions: [] };
+
+  // Sequential to stay within the backend rate limit
+  for (const leg of getTripLegs(intent)) {
+    const days = schedule.filter(slot => slot.leg === leg.city).length;
+    if (days === 0) continue;
+
+    const result = await discoveryAgent(intentForLeg(intent, leg, days), signal);
+    const tag = (place: Place): Place => ({ ...place, leg: leg.city });
+
+    merged.activities.push(...(result.activities || []).map(tag));
+    merged.dining.push(...(result.dining || []).map(tag));
+    merged.accommodations.push(...(result.accommodations || []).map(tag));
+    merged.confidenceScore = Math.min(merged.confidenceScore, result.confidenceScore);
+    merged.assumptions.push(...result.assumptions.map(a => `${leg.city}: ${a}`));
+  }
+
+  return merged;
+};
+
+export interface OptimizationOptions extends LocalOptimizerOptions {
+  mode?: OptimizerMode; // Defaults to config.optimizer.mode
+  // When provided, the LLM response is streamed and called with each newly completed set of days
+  onPartial?: (itineraries: Itinerary[]) => void;
+  signal?: AbortSignal; // Cancels the run; there is no local fallback for a cancelled run
+}
+
+// Coordinates to ~10 m are plenty for ordering stops
+const roundCoordinate = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Prompt form of a place: only what the model needs to pick and order stops. Hours, cost
+ * ranges, images and full descriptions stay out of the prompt (they would push multi-city
+ * trips past the backend's 50KB limit) and are restored by `withPlaceDetails`.
+ */
+const promptPlace = (place: Place) => ({
+  name: place.name,
+  type: place.type,
+  ...(place.leg ? { leg: place.leg } : {}),
+  ...(place.coordinates ? { coordinates: { lat: roundCoordinate(place.coordinates.lat), lng: roundCoordinate(place.coordinates.lng) } } : {}),
+  estimatedCost: place.estimatedCost,
+  ...(place.currencyCode ? { currencyCode: place.currencyCode } : {}),
+});
+
+const promptCandidates = (candidates: DiscoveryResult) => ({
+  activities: (candidates.activities || []).map(promptPlace),
+  dining: (candidates.dining || []).map(promptPlace),
+  accommodations: (candidates.accommodations || []).map(promptPlace),
+});
+
+/**
+ * Replaces each planned place with the full place it was picked from (matched by name), so
+ * details left out of the prompt come back. Places the model made up are kept as returned.
+ */
+const withPlaceDetails = (itinerary: Itinerary, sources: Place[]): Itinerary => {
+  const byName = new Map(sources.map(place => [place.name.trim().toLowerCase(), place]));
+  const restore = (places: Place[] = []) => places.map(place => {
+    const source = byName.get((place.name || '').trim().toLowerCase());
+    return source ? { ...place, ...source } : place;
+  });
+  return {
+    ...itinerary,
+    days: (itinerary.days || []).map(day => ({ ...day, morning: restore(day.morning), afternoon: restore(day.afternoon), evening: restore(day.evening) })),
+  };
+};
+
+const promptItinerary = (itinerary: Itinerary) => ({
+  ...itinerary,
+  days: itinerary.days.map(({ schedule, travel, ...day }) => ({
+    ...day,
+    morning: day.morning.map(promptPlace),
+    afternoon: day.afternoon.map(promptPlace),
+    evening: day.evening.map(promptPlace),
+  })),
+});
+
+const candidatePlaces = (candidates: DiscoveryResult): Place[] =>
+  [...(candidates.activities || []), ...(candidates.dining || []), ...(candidates.accommodations || [])];
+
+/**
+ * Day-by-day leg plan appended to the optimization prompt for multi-city trips.
+ */
+const describeLegSchedule = (intent: TripIntent): string => {
+  if (!isMultiCity(intent)) return "";
+  const lines = allocateLegDays(intent).map(slot =>
+    slot.isTransfer
+      ? `Day ${slot.day}: travel from ${slot.from} to ${slot.leg} (transfer day, evening only, isTransfer=true)`
+      : `Day ${slot.day}: ${slot.leg}`
+  );
+  return `\n\nThis is a multi-city trip: ${describeLegs(getTripLegs(intent))}.\nFollow this day plan, only use candidates whose 'leg' matches the day's city, and set each day's 'leg':\n${lines.join("\n")}`;
+};
+
 /**
  * AGENT 3: OPTIMIZATION AGENT
  * Takes the raw candidates from Discovery and sequences them into logical itineraries.
+ * Depending on the optimizer mode, the LLM plan is used as-is, repaired locally,
+ * or skipped in favour of the deterministic local planner.
  */
-export const optimizationAgent = async (intent: TripIntent, candidates: DiscoveryResult): Promise<OptimizationResult> => {
-  const logId = agentLogger.start("OptimizationAgent", { intent, candidates });
-  // Use gemini-2.5-flash for optimization
-  const model = "gemini-3-flash-preview";
+export const optimizationAgent = async (
+  intent: TripIntent,
+  candidates: DiscoveryResult,
+  options: OptimizationOptions = {}
+): Promise<OptimizationResult> => {
+  const mode = options.mode || config.optimizer.mode;
+  const logId = agentLogger.start("OptimizationAgent", { intent, candidates, mode });
+
+  if (mode === 'local') {
+    const result = checkOpeningHours(optimizeLocally(intent, candidates, options), intent, candidates);
+    agentLogger.success(logId, result, result.confidenceScore);
+    return result;
+  }
+
+  const model = config.llm.models.optimization;
   
-  const itinerarySchema = {
-    type: Type.OBJECT,
+  const itinerarySchema: JsonSchema = {
+    type: SchemaType.OBJECT,
     properties: {
-        id: { type: Type.STRING },
-        title: { type: Type.STRING },
-        description: { type: Type.STRING },
-        tags: { type: Type.ARRAY, items: { type: Type.STRING } },
-        totalEstimatedCost: { type: Type.NUMBER },
-        currency: { type: Type.STRING },
+        id: { type: SchemaType.STRING },
+        title: { type: SchemaType.STRING },
+        description: { type: SchemaType.STRING },
+        tags: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+        totalEstimatedCost: { type: SchemaType.NUMBER },
+        currency: { type: SchemaType.STRING },
         reasoning: {
-          type: Type.OBJECT,
+          type: SchemaType.OBJECT,
           properties: {
-            vibeAnalysis: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { vibe: { type: Type.STRING }, matchedActivities: { type: Type.ARRAY, items: { type: Type.STRING } } } } },
-            constraintLog: { type: Type.ARRAY, items: { type: Type.STRING } },
-            selectedAssumptions: { type: Type.ARRAY, items: { type: Type.STRING } }
+            vibeAnalysis: { type: SchemaType.ARRAY, items: { type: SchemaType.OBJECT, properties: { vibe: { type: SchemaType.STRING }, matchedActivities: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } } } } },
+            constraintLog: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+            selectedAssumptions: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } }
           }
         },
         days: {
-          type: Type.ARRAY,
+          type: SchemaType.ARRAY,
           items: {
-            type: Type.OBJECT,
+            type: SchemaType.OBJECT,
             properties: {
-              day: { type: Type.INTEGER },
-              title: { type: Type.STRING },
-              morning: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, description: { type: Type.STRING }, type: { type: Type.STRING }, estimatedCost: { type: Type.STRING }, currencyCode: { type: Type.STRING }, imageUrl: { type: Type.STRING }, coordinates: { type: Type.OBJECT, properties: { lat: { type: Type.NUMBER }, lng: { type: Type.NUMBER } } } } } },
-              afternoon: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, description: { type: Type.STRING }, type: { type: Type.STRING }, estimatedCost: { type: Type.STRING }, currencyCode: { type: Type.STRING }, imageUrl: { type: Type.STRING }, coordinates: { type: Type.OBJECT, properties: { lat: { type: Type.NUMBER }, lng: { type: Type.NUMBER } } } } } },
-              evening: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, description: { type: Type.STRING }, type: { type: Type.STRING }, estimatedCost: { type: Type.STRING }, currencyCode: { type: Type.STRING }, imageUrl: { type: Type.STRING }, coordinates: { type: Type.OBJECT, properties: { lat: { type: Type.NUMBER }, lng: { type: Type.NUMBER } } } } } },
-              totalEstimatedCost: { type: Type.NUMBER }
+              day: { type: SchemaType.INTEGER },
+              title: { type: SchemaType.STRING },
+              morning: { type: SchemaType.ARRAY, items: { type: SchemaType.OBJECT, properties: { name: { type: SchemaType.STRING }, description: { type: SchemaType.STRING }, type: { type: SchemaType.STRING }, estimatedCost: { type: SchemaType.STRING }, currencyCode: { type: SchemaType.STRING }, imageUrl: { type: SchemaType.STRING }, coordinates: { type: SchemaType.OBJECT, properties: { lat: { type: SchemaType.NUMBER }, lng: { type: SchemaType.NUMBER } } } } } },
+              afternoon: { type: SchemaType.ARRAY, items: { type: SchemaType.OBJECT, properties: { name: { type: SchemaType.STRING }, description: { type: SchemaType.STRING }, type: { type: SchemaType.STRING }, estimatedCost: { type: SchemaType.STRING }, currencyCode: { type: SchemaType.STRING }, imageUrl: { type: SchemaType.STRING }, coordinates: { type: SchemaType.OBJECT, properties: { lat: { type: SchemaType.NUMBER }, lng: { type: SchemaType.NUMBER } } } } } },
+              evening: { type: SchemaType.ARRAY, items: { type: SchemaType.OBJECT, properties: { name: { type: SchemaType.STRING }, description: { type: SchemaType.STRING }, type: { type: SchemaType.STRING }, estimatedCost: { type: SchemaType.STRING }, currencyCode: { type: SchemaType.STRING }, imageUrl: { type: SchemaType.STRING }, coordinates: { type: SchemaType.OBJECT, properties: { lat: { type: SchemaType.NUMBER }, lng: { type: SchemaType.NUMBER } } } } } },
+              totalEstimatedCost: { type: SchemaType.NUMBER },
+              leg: { type: SchemaType.STRING, description: "City this day is spent in" },
+              isTransfer: { type: SchemaType.BOOLEAN, description: "True on travel days between cities" }
             }
           }
         }
     }
   };
 
-  const schema = {
-    type: Type.OBJECT,
+  const schema: JsonSchema = {
+    type: SchemaType.OBJECT,
     properties: {
-        itineraries: { type: Type.ARRAY, items: itinerarySchema },
-        confidenceScore: { type: Type.NUMBER, description: "0.0 to 1.0" },
-        assumptions: { type: Type.ARRAY, items: { type: Type.STRING } }
+        itineraries: { type: SchemaType.ARRAY, items: itinerarySchema },
+        confidenceScore: { type: SchemaType.NUMBER, description: "0.0 to 1.0" },
+        assumptions: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } }
     },
     required: ["itineraries", "confidenceScore", "assumptions"]
   };
@@ -504,33 +685,74 @@ export const optimizationAgent = async (intent: TripIntent, candidates: Discover
   try {
     const result = await runWithRetry(
       "OptimizationAgent",
-      async () => {
-        const text = await callGeminiGenerate({
+      async (attemptSignal) => {
+        const request: LLMRequest = {
           model,
-          contents: `Plan a ${intent.durationDays}-day trip to ${intent.destination} using these candidates: ${JSON.stringify(candidates)}`,
-          config: {
-            systemInstruction: "Create 2 variants (Balanced, Hidden Gems). Use provided candidates. Preserve Coordinates and Currency. Calculate totals in the local currency.",
-            responseMimeType: "application/json",
-            responseSchema: schema,
-          }
-        });
+          signal: attemptSignal,
+          contents: `Plan a ${intent.durationDays}-day trip to ${intent.destination} using these candidates: ${JSON.stringify(promptCandidates(candidates))}${describeLegSchedule(intent)}`,
+          systemInstruction: "Create 2 variants (Balanced, Hidden Gems). Use provided candidates. Preserve Coordinates and Currency. Calculate totals in the local currency.",
+          responseSchema: schema
+        };
+
+        const { onPartial } = options;
+        let text: string;
+        if (onPartial) {
+          // Only notify when another day has completed to avoid re-rendering on every token
+          let lastDayCount = 0;
+          text = await callLLMStream(request, (accumulated) => {
+            // A timed-out attempt must not overwrite the plans shown since
+            if (attemptSignal.aborted) return;
+            const partial = extractPartialItineraries(accumulated);
+            const dayCount = partial.reduce((sum, it) => sum + it.days.length, 0);
+            if (dayCount > lastDayCount) {
+              lastDayCount = dayCount;
+              onPartial(partial.map(it => scheduleItinerary(applyLegSchedule(it, intent))));
+            }
+          });
+        } else {
+          text = await callLLMGenerate(request);
+        }
         return JSON.parse(text) as OptimizationResult;
       },
       CONFIG.RETRIES,
-      CONFIG.OPTIMIZATION_TIMEOUT_MS // Use longer timeout for optimization
+      CONFIG.OPTIMIZATION_TIMEOUT_MS, // Use longer timeout for optimization
+      options.signal
     );
 
-    agentLogger.success(logId, result, result.confidenceScore);
-    return result;
+    // Totals are computed from the places' costs rather than taken from the model
+    result.itineraries = result.itineraries.map(it =>
+      withComputedTotals(applyLegSchedule(withPlaceDetails(it, candidatePlaces(candidates)), intent), intent, candidates)
+    );
+    if (mode === 'llm_local_repair') {
+      result.itineraries = result.itineraries.map(it => repairItinerary(it, intent, candidates, options));
+    }
+    // Times are always computed locally from the day buckets
+    result.itineraries = result.itineraries.map(scheduleItinerary);
+    const checked = checkOpeningHours(result, intent, candidates);
+
+    agentLogger.success(logId, checked, checked.confidenceScore);
+    return checked;
 
   } catch (error) {
+    if (isCancelledError(error)) {
+      agentLogger.error(logId, error);
+      throw error;
+    }
     // FALLBACK LOGIC
     console.error("Optimization failed, switching to fallback...", error);
     agentLogger.error(logId, { message: "Optimization Failed, using fallback", originalError: error });
-    return generateFallbackItinerary(intent, candidates);
+    return checkOpeningHours(generateFallbackItinerary(intent, candidates, options), intent, candidates);
   }
 };
 
+/**
+ * Runs the opening hours validator over every variant with the configured policy.
+ */
+const checkOpeningHours = (result: OptimizationResult, intent: TripIntent, candidates: DiscoveryResult): OptimizationResult => ({
+  ...result,
+  itineraries: result.itineraries.map(it => enforceOpeningHours(it, intent, candidates, config.optimizer.openingHoursPolicy)),
+});
+
 /**
  * AGENT 4: REFINE ITINERARY AGENT
  * Handles granular updates to an existing itinerary (Swap, Regenerate Day, etc.)
@@ -538,40 +760,45 @@ export const optimizationAgent = async (intent: TripIntent, candidates: Discover
 export const refineItineraryAgent = async (
   currentItinerary: Itinerary, 
   instruction: string, 
-  candidates: DiscoveryResult
+  candidates: DiscoveryResult,
+  intent?: TripIntent, // Enables computed totals and opening hours checks on the refined plan
+  groupFeedback?: string, // Votes and comments from the people planning the trip
+  signal?: AbortSignal
 ): Promise<Itinerary> => {
   const logId = agentLogger.start("RefineItineraryAgent", { instruction, currentItineraryId: currentItinerary.id });
-  // Use faster model for refine operations
-  const model = "gemini-2.0-flash";
+  // Refine defaults to a faster model (see ConfigService)
+  const model = config.llm.models.refine;
 
-  const itinerarySchema = {
-    type: Type.OBJECT,
+  const itinerarySchema: JsonSchema = {
+    type: SchemaType.OBJECT,
     properties: {
-        id: { type: Type.STRING },
-        title: { type: Type.STRING },
-        description: { type: Type.STRING },
-        tags: { type: Type.ARRAY, items: { type: Type.STRING } },
-        totalEstimatedCost: { type: Type.NUMBER },
-        currency: { type: Type.STRING },
+        id: { type: SchemaType.STRING },
+        title: { type: SchemaType.STRING },
+        description: { type: SchemaType.STRING },
+        tags: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+        totalEstimatedCost: { type: SchemaType.NUMBER },
+        currency: { type: SchemaType.STRING },
         reasoning: {
-          type: Type.OBJECT,
+          type: SchemaType.OBJECT,
           properties: {
-            vibeAnalysis: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { vibe: { type: Type.STRING }, matchedActivities: { type: Type.ARRAY, items: { type: Type.STRING } } } } },
-            constraintLog: { type: Type.ARRAY, items: { type: Type.STRING } },
-            selectedAssumptions: { type: Type.ARRAY, items: { type: Type.STRING } }
+            vibeAnalysis: { type: SchemaType.ARRAY, items: { type: SchemaType.OBJECT, properties: { vibe: { type: SchemaType.STRING }, matchedActivities: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } } } } },
+            constraintLog: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+            selectedAssumptions: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } }
           }
         },
         days: {
-          type: Type.ARRAY,
+          type: SchemaType.ARRAY,
           items: {
-            type: Type.OBJECT,
+            type: SchemaType.OBJECT,
             properties: {
-              day: { type: Type.INTEGER },
-              title: { type: Type.STRING },
-              morning: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, description: { type: Type.STRING }, type: { type: Type.STRING }, estimatedCost: { type: Type.STRING }, currencyCode: { type: Type.STRING }, imageUrl: { type: Type.STRING }, coordinates: { type: Type.OBJECT, properties: { lat: { type: Type.NUMBER }, lng: { type: Type.NUMBER } } } } } },
-              afternoon: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, description: { type: Type.STRING }, type: { type: Type.STRING }, estimatedCost: { type: Type.STRING }, currencyCode: { type: Type.STRING }, imageUrl: { type: Type.STRING }, coordinates: { type: Type.OBJECT, properties: { lat: { type: Type.NUMBER }, lng: { type: Type.NUMBER } } } } } },
-              evening: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { name: { type: Type.STRING }, description: { type: Type.STRING }, type: { type: Type.STRING }, estimatedCost: { type: Type.STRING }, currencyCode: { type: Type.STRING }, imageUrl: { type: Type.STRING }, coordinates: { type: Type.OBJECT, properties: { lat: { type: Type.NUMBER }, lng: { type: Type.NUMBER } } } } } },
-              totalEstimatedCost: { type: Type.NUMBER }
+              day: { type: SchemaType.INTEGER },
+              title: { type: SchemaType.STRING },
+              morning: { type: SchemaType.ARRAY, items: { type: SchemaType.OBJECT, properties: { name: { type: SchemaType.STRING }, description: { type: SchemaType.STRING }, type: { type: SchemaType.STRING }, estimatedCost: { type: SchemaType.STRING }, currencyCode: { type: SchemaType.STRING }, imageUrl: { type: SchemaType.STRING }, coordinates: { type: SchemaType.OBJECT, properties: { lat: { type: SchemaType.NUMBER }, lng: { type: SchemaType.NUMBER } } } } } },
+              afternoon: { type: SchemaType.ARRAY, items: { type: SchemaType.OBJECT, properties: { name: { type: SchemaType.STRING }, description: { type: SchemaType.STRING }, type: { type: SchemaType.STRING }, estimatedCost: { type: SchemaType.STRING }, currencyCode: { type: SchemaType.STRING }, imageUrl: { type: SchemaType.STRING }, coordinates: { type: SchemaType.OBJECT, properties: { lat: { type: SchemaType.NUMBER }, lng: { type: SchemaType.NUMBER } } } } } },
+              evening: { type: SchemaType.ARRAY, items: { type: SchemaType.OBJECT, properties: { name: { type: SchemaType.STRING }, description: { type: SchemaType.STRING }, type: { type: SchemaType.STRING }, estimatedCost: { type: SchemaType.STRING }, currencyCode: { type: SchemaType.STRING }, imageUrl: { type: SchemaType.STRING }, coordinates: { type: SchemaType.OBJECT, properties: { lat: { type: SchemaType.NUMBER }, lng: { type: SchemaType.NUMBER } } } } } },
+              totalEstimatedCost: { type: SchemaType.NUMBER },
+              leg: { type: SchemaType.STRING, description: "City this day is spent in" },
+              isTransfer: { type: SchemaType.BOOLEAN, description: "True on travel days between cities" }
             }
           }
         }
@@ -581,20 +808,30 @@ export const refineItineraryAgent = async (
   try {
     const result = await runWithRetry(
       "RefineItineraryAgent",
-      async () => {
-        const text = await callGeminiGenerate({
+      async (attemptSignal) => {
+        const text = await callLLMGenerate({
           model,
-          contents: `Current Itinerary: ${JSON.stringify(currentItinerary)}\nUser Instruction: ${instruction}\nAvailable Candidates: ${JSON.stringify(candidates)}`,
-          config: {
-            systemInstruction: "Edit itinerary based on request. Maintain structure. Include coordinates and currency codes.",
-            responseMimeType: "application/json",
-            responseSchema: itinerarySchema
-          }
+          signal: attemptSignal,
+          // Schedules and travel times are derived locally and place details restored afterwards; leaving them out keeps the prompt small
+          contents: `Current Itinerary: ${JSON.stringify(promptItinerary(currentItinerary))}\nUser Instruction: ${instruction}\nAvailable Candidates: ${JSON.stringify(promptCandidates(candidates))}${groupFeedback ? `\nGroup Feedback (votes and comments on this plan):\n${groupFeedback}` : ''}`,
+          systemInstruction: "Edit itinerary based on request. Maintain structure. Include coordinates and currency codes.",
+          responseSchema: itinerarySchema
         });
-        return JSON.parse(text) as Itinerary;
+        const planned = currentItinerary.days.flatMap(day => [...day.morning, ...day.afternoon, ...day.evening]);
+        const refined = withPlaceDetails(JSON.parse(text) as Itinerary, [...planned, ...candidatePlaces(candidates)]);
+        // Comments and votes are keyed by plan id, so the refined plan must keep it
+        refined.id = currentItinerary.id;
+        // Keep the leg labels of multi-city trips even if the model drops them
+        refined.days = (refined.days || []).map((day, idx) => {
+          const original = currentItinerary.days[idx];
+          return original?.leg && !day.leg ? { ...day, leg: original.leg, isTransfer: original.isTransfer } : day;
+        });
+        const scheduled = scheduleItinerary(intent ? withComputedTotals(refined, intent, candidates) : refined);
+        return intent ? enforceOpeningHours(scheduled, intent, candidates, config.optimizer.openingHoursPolicy) : scheduled;
       },
       CONFIG.RETRIES,
-      CONFIG.REFINE_TIMEOUT_MS
+      CONFIG.REFINE_TIMEOUT_MS,
+      signal
     );
 
     agentLogger.success(logId, result, 1.0);
@@ -605,3 +842,154 @@ export const refineItineraryAgent = async (
     throw error;
   }
 };
+
+const ChatRouteZodSchema = z.object({
+  route: z.enum(["new_trip", "refine", "question"]),
+  instruction: z.string().default(""),
+});
+
+// Compact outline of a plan for prompts that only need to know what is where
+const outlinePlan = (itinerary: Itinerary): string =>
+  itinerary.days.map(day => {
+    const slot = (label: string, places: Place[]) => places.length ? `${label}: ${places.map(p => p.name).join(', ')}` : null;
+    const parts = [slot('morning', day.morning), slot('afternoon', day.afternoon), slot('evening', day.evening)].filter(Boolean);
+    return `Day ${day.day} (${day.title}${day.leg ? `, ${day.leg}` : ''}) - ${parts.join('; ') || 'free'}`;
+  }).join('\n');
+
+/**
+ * AGENT 5: CHAT ROUTER
+ * Decides what a follow-up chat message means once plans are shown: a new trip, a change to
+ * the plan being viewed, or a question about it. Refinements come back as a standalone
+ * instruction for the Refine Agent. If routing fails, the message is treated as a new trip,
+ * which is how every message was handled before.
+ */
+export const routeChatMessageAgent = async (
+  message: string,
+  recentHistory: string,
+  itinerary: Itinerary,
+  intent: TripIntent,
+  signal?: AbortSignal
+): Promise<RoutedChatMessage> => {
+  const logId = agentLogger.start("ChatRouter", { message, currentItineraryId: itinerary.id });
+  // A short classification; the fast refine model is enough
+  const model = config.llm.models.refine;
+
+  const systemInstruction = `
+    Classify the traveler's latest message about their trip plan.
+    - "new_trip": they want to plan a different trip (another destination, or start over).
+    - "refine": they want to change the current plan (e.g. "make day 2 more food-focused", "swap the museum for a beach").
+      Changing dates, budget or the number of travelers of the same trip is also a refinement.
+    - "question": they ask something about the plan without asking for a change.
+    For "refine", put a standalone instruction for the itinerary editor in 'instruction', naming days and places explicitly.
+    Otherwise leave 'instruction' empty. Return strictly JSON matching the requested schema.
+  `;
+
+  const schema: JsonSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+      route: { type: SchemaType.STRING, enum: ["new_trip", "refine", "question"] },
+      instruction: { type: SchemaType.STRING },
+    },
+    required: ["route", "instruction"]
+  };
+
+  try {
+    const result = await runWithRetry(
+      "ChatRouter",
+      async (attemptSignal) => {
+        const text = await callLLMGenerate({
+          model,
+          signal: attemptSignal,
+          contents: `Trip: ${intent.destination}, ${intent.durationDays} days\nPlan "${itinerary.title}":\n${outlinePlan(itinerary)}\n\nRecent conversation:\n${recentHistory}\n\nLatest message: ${message}`,
+          systemInstruction,
+          responseSchema: schema
+        });
+        const parsed = ChatRouteZodSchema.safeParse(JSON.parse(text));
+        if (parsed.success === false) {
+          throw new Error(`Validation Error: ${parsed.error.errors[0]?.message || 'Unknown validation error'}`);
+        }
+        // A refinement without an instruction falls back to the traveler's own words
+        const { route, instruction } = parsed.data;
+        return { route, instruction: route === 'refine' ? (instruction.trim() || message) : '' };
+      },
+      CONFIG.RETRIES,
+      CONFIG.INTENT_TIMEOUT_MS,
+      signal
+    );
+
+    agentLogger.success(logId, result, 1.0);
+    return result;
+
+  } catch (error) {
+    agentLogger.error(logId, error);
+    if (isCancelledError(error)) throw error;
+    return { route: 'new_trip', instruction: '' };
+  }
+};
+
+const PlanAnswerZodSchema = z.object({
+  answer: z.string().min(1, "Answer is required"),
+});
+
+/**
+ * AGENT 6: PLAN Q&A
+ * Answers questions about the trip ("how far is the hotel from day 3's museum?") from facts
+ * computed locally (see planFacts.ts). It never changes the plan.
+ */
+export const answerPlanQuestionAgent = async (
+  question: string,
+  recentHistory: string,
+  intent: TripIntent,
+  itinerary: Itinerary,
+  discovery: DiscoveryResult | null,
+  signal?: AbortSignal
+): Promise<string> => {
+  const logId = agentLogger.start("PlanQA", { question, currentItineraryId: itinerary.id });
+  const model = config.llm.models.refine;
+
+  const systemInstruction = `
+    You answer a traveler's questions about their trip plan.
+    - Use only the PLAN FACTS provided. Quote the computed totals, distances and times as given instead of recalculating them.
+    - If the facts do not contain the answer, say so briefly and suggest what they could ask or change instead.
+    - Do not propose or make changes unless asked; to change the plan the traveler can simply ask for it in the chat.
+    - Answer in a few friendly sentences of plain text. Return strictly JSON matching the requested schema.
+  `;
+
+  const schema: JsonSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+      answer: { type: SchemaType.STRING },
+    },
+    required: ["answer"]
+  };
+
+  try {
+    const result = await runWithRetry(
+      "PlanQA",
+      async (attemptSignal) => {
+        const text = await callLLMGenerate({
+          model,
+          signal: attemptSignal,
+          contents: `PLAN FACTS:\n${describePlanFacts(intent, itinerary, discovery)}\n\nRecent conversation:\n${recentHistory}\n\nQuestion: ${question}`,
+          systemInstruction,
+          responseSchema: schema
+        });
+        const parsed = PlanAnswerZodSchema.safeParse(JSON.parse(text));
+        if (parsed.success === false) {
+          throw new Error(`Validation Error: ${parsed.error.errors[0]?.message || 'Unknown validation error'}`);
+        }
+        return parsed.data.answer.trim();
+      },
+      CONFIG.RETRIES,
+      CONFIG.REFINE_TIMEOUT_MS,
+      signal
+    );
+
+    agentLogger.success(logId, { answer: result }, 1.0);
+    return result;
+
+  } catch (error) {
+    agentLogger.error(logId, error);
+    throw error;
+  }
+};
@@ -0,0 +1,157 @@
+import { TripIntent, TripLeg, DiscoveryResult, DayPlan, Itinerary, Place } from "../types";
+
+/**
+ * Multi-city trip helpers.
+ *
+ * Days are split between legs in proportion to their nights. Every leg after the first
+ * starts with a transfer day: travel from the previous city, with only an evening in the new one.
+ */
+
+export interface LegDay {
+  day: number;
+  leg: string;
+  isTransfer: boolean;
+  from?: string; // Previous city, set on transfer days
+}
+
+export interface LegGroup {
+  leg: string | null;
+  days: DayPlan[];
+}
+
+/**
+ * Ordered legs of the trip. Intents without legs are treated as a single leg covering the whole trip.
+ */
+export const getTripLegs = (intent: TripIntent): TripLeg[] => {
+  const legs = (intent.legs || []).filter(leg => leg.city && leg.city.trim().length > 0);
+  if (legs.length > 0) return legs;
+  return [{ city: intent.destination, nights: intent.durationDays, arrivalDate: intent.startDate, departureDate: intent.endDate }];
+};
+
+export const isMultiCity = (intent: TripIntent): boolean => getTripLegs(intent).length > 1;
+
+/**
+ * Splits a day count between weights using largest remainders, giving every entry at least one day when possible.
+ */
+const distributeDays = (total: number, weights: number[]): number[] => {
+  const safeWeights = weights.map(w => Math.max(1, w));
+  const weightSum = safeWeights.reduce((sum, w) => sum + w, 0);
+  const spare = Math.max(0, total - weights.length);
+
+  const exact = safeWeights.map(w => (spare * w) / weightSum);
+  const counts = exact.map(x => 1 + Math.floor(x));
+  let remaining = total - counts.reduce((sum, c) => sum + c, 0);
+
+  const byRemainder = exact
+    .map((x, idx) => ({ idx, rest: x - Math.floor(x) }))
+    .sort((a, b) => (b.rest - a.rest) || (a.idx - b.idx));
+  for (let i = 0; remaining > 0; i = (i + 1) % byRemainder.length, remaining--) {
+    counts[byRemainder[i].idx]++;
+  }
+
+  // Fewer days than legs: the trailing legs get no days
+  let overflow = counts.reduce((sum, c) => sum + c, 0) - total;
+  for (let idx = counts.length - 1; overflow > 0 && idx >= 0; idx--) {
+    const cut = Math.min(counts[idx], overflow);
+    counts[idx] -= cut;
+    overflow -= cut;
+  }
+  return counts;
+};
+
+/**
+ * Assigns each day of the trip to a leg and marks the transfer days.
+ */
+export const allocateLegDays = (intent: TripIntent): LegDay[] => {
+  const legs = getTripLegs(intent);
+  const total = Math.max(1, intent.durationDays);
+  const counts = distributeDays(total, legs.map(leg => leg.nights));
+
+  const schedule: LegDay[] = [];
+  let previous: string | undefined;
+  legs.forEach((leg, legIdx) => {
+    for (let i = 0; i < counts[legIdx]; i++) {
+      const isTransfer = i === 0 && previous !== undefined;
+      schedule.push({
+        day: schedule.length + 1,
+        leg: leg.city,
+        isTransfer,
+        ...(isTransfer ? { from: previous } : {}),
+      });
+    }
+    if (counts[legIdx] > 0) previous = leg.city;
+  });
+  return schedule;
+};
+
+/**
+ * The intent for a single leg, used to run discovery per city.
+ */
+export const intentForLeg = (intent: TripIntent, leg: TripLeg, days: number): TripIntent => ({
+  ...intent,
+  destination: leg.city,
+  startDate: leg.arrivalDate,
+  endDate: leg.departureDate,
+  durationDays: Math.max(1, days),
+  legs: [leg],
+});
+
+/**
+ * Candidates discovered for a leg. Falls back to all candidates when none are tagged with legs.
+ */
+export const candidatesForLeg = (discovery: DiscoveryResult, city: string): DiscoveryResult => {
+  const all = [...(discovery.activities || []), ...(discovery.dining || []), ...(discovery.accommodations || [])];
+  if (!all.some(p => p.leg)) return discovery;
+
+  const inLeg = (p: Place) => p.leg === city;
+  return {
+    ...discovery,
+    activities: (discovery.activities || []).filter(inLeg),
+    dining: (discovery.dining || []).filter(inLeg),
+    accommodations: (discovery.accommodations || []).filter(inLeg),
+  };
+};
+
+export const transferDayTitle = (from: string, to: string) => `Travel from ${from} to ${to}`;
+
+/**
+ * Stamps the leg schedule onto an itinerary's days (the LLM does not always label them).
+ */
+export const applyLegSchedule = (itinerary: Itinerary, intent: TripIntent): Itinerary => {
+  if (!isMultiCity(intent)) return itinerary;
+  const schedule = allocateLegDays(intent);
+
+  return {
+    ...itinerary,
+    days: itinerary.days.map((day, idx) => {
+      const slot = schedule[idx];
+      if (!slot) return day;
+      return {
+        ...day,
+        leg: slot.leg,
+        isTransfer: slot.isTransfer,
+        title: slot.isTransfer && slot.from && !day.title ? transferDayTitle(slot.from, slot.leg) : day.title,
+      };
+    }),
+  };
+};
+
+/**
+ * Groups consecutive days spent in the same city, for rendering.
+ */
+export const groupDaysByLeg = (days: DayPlan[]): LegGroup[] => {
+  const groups: LegGroup[] = [];
+  for (const day of days) {
+    const leg = day.leg || null;
+    const last = groups[groups.length - 1];
+    if (last && last.leg === leg) last.days.push(day);
+    else groups.push({ leg, days: [day] });
+  }
+  return groups;
+};
+
+/**
+ * Human-readable route, e.g. "Lisbon (3 nights) → Porto (2 nights)".
+ */
+export const describeLegs = (legs: TripLeg[]): string =>
+  legs.map(leg => `${leg.city} (${leg.nights} night${leg.nights === 1 ? '' : 's'})`).join(' → ');
@@ -0,0 +1,143 @@
+import { LLMProvider, LLMProviderName, LLMRequest, LLMResult } from './types';
+
+const LLM_API_BASE = "/api/llm";
+
+/**
+ * Calls an LLM provider through the Node backend (see server/providers).
+ * The browser never talks to the model server directly, so keys stay server-side.
+ */
+export class BackendLLMProvider implements LLMProvider {
+  constructor(readonly name: LLMProviderName) {}
+
+  async generate(request: LLMRequest): Promise<LLMResult> {
+    const response = await fetch(`${LLM_API_BASE}/generate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(this.toWireRequest(request)),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw await readBackendError(response);
+    }
+
+    const data = await response.json();
+    if (!data || typeof data.text !== "string") {
+      throw new Error("LLM backend returned invalid response");
+    }
+    return { text: data.text, usage: data.usage || null };
+  }
+
+  async stream(request: LLMRequest, onText: (accumulated: string) => void): Promise<LLMResult> {
+    const response = await fetch(`${LLM_API_BASE}/stream`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Accept": "text/event-stream" },
+      body: JSON.stringify(this.toWireRequest(request)),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw await readBackendError(response);
+    }
+    if (!response.body) {
+      throw new Error("LLM backend returned an empty stream");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let accumulated = "";
+    let finished = false;
+    let usage = null;
+
+    while (!finished) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // SSE events are separated by a blank line
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const event = parseSseEvent(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+
+        if (event.type === "chunk" && typeof event.data?.text === "string") {
+          accumulated += event.data.text;
+          onText(accumulated);
+        } else if (event.type === "error") {
+          const error: any = new Error(event.data?.error || "LLM stream failed");
+          error.details = event.data;
+          throw error;
+        } else if (event.type === "done") {
+          usage = event.data?.usage || null;
+          finished = true;
+        }
+      }
+    }
+
+    if (!finished) {
+      throw new Error("LLM stream ended unexpectedly");
+    }
+    return { text: accumulated, usage };
+  }
+
+  // The backend speaks Gemini's request shape; other providers translate it server-side
+  private toWireRequest({ model, contents, systemInstruction, responseSchema }: LLMRequest) {
+    return {
+      provider: this.name,
+      model,
+      contents,
+      config: {
+        systemInstruction,
+        ...(responseSchema ? { responseMimeType: "application/json", responseSchema } : {}),
+      },
+    };
+  }
+}
+
+async function readBackendError(response: Response): Promise<Error> {
+  let message = `LLM backend error: ${response.status}`;
+  let errorDetails: any = null;
+
+  try {
+    const errBody = await response.json();
+    errorDetails = errBody;
+
+    // Handle different error response formats
+    if (errBody && typeof errBody.error === "string") {
+      message = errBody.error;
+    } else if (errBody && typeof errBody.error === "object") {
+      // Provider APIs return detailed error objects
+      const apiError = errBody.error;
+      if (apiError.message) {
+        message = apiError.message;
+      }
+      if (apiError.code) {
+        message = `[${apiError.code}] ${message}`;
+      }
+    } else if (errBody && errBody.message) {
+      message = errBody.message;
+    }
+  } catch {
+    // ignore JSON parse failure
+  }
+
+  const error: any = new Error(message);
+  error.details = errorDetails;
+  return error;
+}
+
+function parseSseEvent(raw: string): { type: string; data: any } {
+  let type = "message";
+  const dataLines: string[] = [];
+  for (const line of raw.split("\n")) {
+    if (line.startsWith("event:")) type = line.slice(6).trim();
+    else if (line.startsWith("data:")) dataLines.push(line.slice(5).trim());
+  }
+  try {
+    return { type, data: dataLines.length ? JSON.parse(dataLines.join("\n")) : null };
+  } catch {
+    return { type, data: null };
+  }
+}
@@ -0,0 +1,6 @@
+import { config } from '../config';
+import { BackendLLMProvider } from './backendProvider';
+import { LLMProvider } from './types';
+
+// Active provider, selected via LLM_PROVIDER (see ConfigService)
+export const llmProvider: LLMProvider = new BackendLLMProvider(config.llm.provider);
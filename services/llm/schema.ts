@@ -0,0 +1,25 @@
+/**
+ * Provider-neutral response schema types.
+ *
+ * Mirrors the values of `Type` from @google/genai so schemas can be sent to Gemini unchanged;
+ * the backend converts them to standard JSON Schema for OpenAI-compatible servers.
+ */
+export const SchemaType = {
+  OBJECT: 'OBJECT',
+  ARRAY: 'ARRAY',
+  STRING: 'STRING',
+  NUMBER: 'NUMBER',
+  INTEGER: 'INTEGER',
+  BOOLEAN: 'BOOLEAN',
+} as const;
+
+export type SchemaTypeName = typeof SchemaType[keyof typeof SchemaType];
+
+export interface JsonSchema {
+  type: SchemaTypeName;
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
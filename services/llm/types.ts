@@ -0,0 +1,40 @@
+import { LLMProviderName } from '../config';
+import { JsonSchema } from './schema';
+
+export type { LLMProviderName };
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Provider-neutral generation request. When `responseSchema` is set the model must return JSON.
+ */
+export interface LLMRequest {
+  model: string;
+  contents: string;
+  systemInstruction?: string;
+  responseSchema?: JsonSchema;
+  signal?: AbortSignal; // Aborts the request, including the model call on the backend
+}
+
+export interface LLMResult {
+  text: string;
+  usage: TokenUsage | null;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+
+  /**
+   * Generate a complete response.
+   */
+  generate(request: LLMRequest): Promise<LLMResult>;
+
+  /**
+   * Stream a response. `onText` receives the accumulated text after every chunk.
+   */
+  stream(request: LLMRequest, onText: (accumulated: string) => void): Promise<LLMResult>;
+}
@@ -0,0 +1,574 @@
+import { TripIntent, DiscoveryResult, Itinerary, DayPlan, Place, UserPreferences, OptimizationResult, CurrencyInfo, Coordinates, PlanReasoning, Travelers } from "../types";
+import { placeCost, formatCost, convertAmount, groupCostMultiplier } from "./costEstimator";
+import { haversineKm, hasValidCoordinates, centroid } from "../utils/geo";
+import { allocateLegDays, candidatesForLeg, isMultiCity, LegDay, transferDayTitle } from "./legs";
+import { scheduleItinerary } from "./scheduler";
+
+/**
+ * Local Itinerary Optimizer
+ *
+ * Deterministic, LLM-free planner that turns discovery candidates into itineraries:
+ * - Budget-aware ranking of candidates (rating + vibe match - weighted cost)
+ * - Geographic clustering of stops into days (angular sweep around the centroid)
+ * - Per-day routing with nearest-neighbour seeding and 2-opt improvement
+ * - Pace-based caps on stops per slot
+ * - Multi-city trips planned leg by leg, with an evening-only transfer day on arrival in each new city
+ * - Timed schedule (start, duration, travel from previous stop) for every day
+ * - Day and trip totals computed from the places' estimated costs for the whole group
+ *
+ * Also used to repair LLM output (dedupe, re-route, enforce pace, recalculate totals).
+ */
+
+type Pace = UserPreferences['pace'];
+
+interface SlotCaps {
+  morning: number;
+  afternoon: number;
+  evening: number;
+}
+
+const PACE_SLOT_CAPS: Record<Pace, SlotCaps> = {
+  'Relaxed': { morning: 1, afternoon: 1, evening: 1 },
+  'Moderate': { morning: 1, afternoon: 2, evening: 1 },
+  'Fast Paced': { morning: 2, afternoon: 2, evening: 1 },
+};
+
+// How strongly cost pushes a candidate down the ranking for each budget tier
+const COST_WEIGHT: Record<TripIntent['budgetLevel'], number> = {
+  'Budget': 1.0,
+  'Moderate': 0.5,
+  'Luxury': 0.1,
+};
+
+const DEFAULT_RATING = 3.5;
+
+interface PlanVariant {
+  key: string;
+  title: string;
+  description: string;
+  tags: string[];
+  costBias: number; // Multiplier on the tier cost weight
+}
+
+const VARIANTS: PlanVariant[] = [
+  {
+    key: 'balanced',
+    title: 'Balanced Route',
+    description: 'Top-rated highlights grouped by area so you spend less time in transit.',
+    tags: ['Balanced', 'Efficient Routing'],
+    costBias: 1,
+  },
+  {
+    key: 'budget',
+    title: 'Budget Saver',
+    description: 'The same efficient routing, favouring the most affordable candidates.',
+    tags: ['Budget Friendly', 'Efficient Routing'],
+    costBias: 2.5,
+  },
+];
+
+export interface LocalOptimizerOptions {
+  preferences?: UserPreferences | null;
+}
+
+// --- HELPERS ---
+
+const placeKey = (place: Place) => place.name.trim().toLowerCase();
+
+/**
+ * Trip-level pace: explicit vibes (e.g. from "More Relaxed") win over profile defaults.
+ */
+export const resolvePace = (intent: TripIntent, preferences?: UserPreferences | null): Pace => {
+  const vibes = intent.vibes.map(v => v.toLowerCase());
+  if (vibes.some(v => v.includes('relaxed') || v.includes('chill'))) return 'Relaxed';
+  if (vibes.some(v => v.includes('fast paced') || v.includes('active'))) return 'Fast Paced';
+  return preferences?.pace || 'Moderate';
+};
+
+export const resolvePrimaryCurrency = (intent: TripIntent, preferred?: string): CurrencyInfo => {
+  if (preferred && intent.currencyRates[preferred]) return intent.currencyRates[preferred];
+  const first = Object.keys(intent.currencyRates)[0];
+  return first ? intent.currencyRates[first] : { code: 'USD', symbol: '$', rateToUSD: 1 };
+};
+
+// Rates and travelers are optional so plans without their intent (e.g. shared links) can still
+// be priced; without travelers the amount is for a single unit (one person, room or group)
+const placeAmount = (place: Place, rates: Record<string, CurrencyInfo>, currency: CurrencyInfo, travelers?: Travelers | null): number => {
+  const cost = placeCost(place, currency.code);
+  if (!cost) return 0;
+  const midpoint = (cost.min + cost.max) / 2;
+  const units = travelers ? groupCostMultiplier(cost, place.type, travelers) : 1;
+  return convertAmount(midpoint * units, rates[cost.currency] || currency, currency);
+};
+
+/**
+ * Midpoint of the place's estimated cost range for the whole group, converted into the target currency.
+ */
+export const estimatePlaceCost = (place: Place, intent: TripIntent, currency: CurrencyInfo): number =>
+  placeAmount(place, intent.currencyRates, currency, intent.travelers);
+
+export const calculateDayTotal = (day: DayPlan, intent: TripIntent, currency: CurrencyInfo): number => {
+  const stops = [...day.morning, ...day.afternoon, ...day.evening];
+  return Math.round(stops.reduce((sum, p) => sum + estimatePlaceCost(p, intent, currency), 0));
+};
+
+/**
+ * Replaces the totals the model claimed with ones computed from the places' costs. Places the
+ * model returned without a numeric cost take it from the matching discovery candidate, and
+ * their display cost is re-derived from it.
+ */
+export const withComputedTotals = (itinerary: Itinerary, intent: TripIntent, discovery: DiscoveryResult | null): Itinerary => {
+  const costs = new Map<string, Place['cost']>();
+  for (const place of [...(discovery?.activities || []), ...(discovery?.dining || []), ...(discovery?.accommodations || [])]) {
+    if (place.cost) costs.set(placeKey(place), place.cost);
+  }
+  const withCost = (places: Place[]) => places.map(p => {
+    const cost = p.cost || costs.get(placeKey(p));
+    return cost ? { ...p, cost, estimatedCost: formatCost(cost) } : p;
+  });
+
+  const currency = resolvePrimaryCurrency(intent, itinerary.currency);
+  const days = itinerary.days.map(day => {
+    const priced = { ...day, morning: withCost(day.morning || []), afternoon: withCost(day.afternoon || []), evening: withCost(day.evening || []) };
+    return { ...priced, totalEstimatedCost: calculateDayTotal(priced, intent, currency) };
+  });
+  return {
+    ...itinerary,
+    currency: currency.code,
+    days,
+    totalEstimatedCost: days.reduce((sum, d) => sum + d.totalEstimatedCost, 0),
+  };
+};
+
+/**
+ * Estimated spend per place type (Activity, Food, ...) in the plan's currency; for the whole group when the travelers are known.
+ */
+export const spendByCategory = (
+  itinerary: Itinerary,
+  rates: Record<string, CurrencyInfo> = {},
+  travelers?: Travelers | null
+): Record<string, number> => {
+  const currency = rates[itinerary.currency] || { code: itinerary.currency, symbol: itinerary.currency, rateToUSD: 0 };
+  const totals: Record<string, number> = {};
+  for (const day of itinerary.days) {
+    for (const place of [...day.morning, ...day.afternoon, ...day.evening]) {
+      totals[place.type] = (totals[place.type] || 0) + placeAmount(place, rates, currency, travelers);
+    }
+  }
+  return totals;
+};
+
+const vibeMatches = (place: Place, vibes: string[]): string[] => {
+  const text = `${place.name} ${place.description}`.toLowerCase();
+  return vibes.filter(vibe =>
+    vibe.toLowerCase().split(/\s+/).some(word => word.length > 3 && text.includes(word))
+  );
+};
+
+const rankCandidates = (
+  places: Place[],
+  intent: TripIntent,
+  currency: CurrencyInfo,
+  costWeight: number
+): Place[] => {
+  const costs = places.map(p => estimatePlaceCost(p, intent, currency));
+  const maxCost = Math.max(1, ...costs);
+
+  const scored = places.map((place, idx) => {
+    const ratingScore = (place.rating ?? DEFAULT_RATING) / 5;
+    const vibeScore = Math.min(0.6, vibeMatches(place, intent.vibes).length * 0.3);
+    const costPenalty = costWeight * (costs[idx] / maxCost);
+    return { place, score: ratingScore + vibeScore - costPenalty, idx };
+  });
+
+  // Stable sort: ties keep the discovery order
+  scored.sort((a, b) => (b.score - a.score) || (a.idx - b.idx));
+  return scored.map(s => s.place);
+};
+
+const dedupe = (places: Place[]): Place[] => {
+  const seen = new Set<string>();
+  return places.filter(p => {
+    const key = placeKey(p);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// --- ROUTING ---
+
+const pathLength = (route: Place[], start: Coordinates | null): number => {
+  let total = 0;
+  let prev = start;
+  for (const stop of route) {
+    if (prev && stop.coordinates) total += haversineKm(prev, stop.coordinates);
+    prev = stop.coordinates || prev;
+  }
+  return total;
+};
+
+const nearestNeighbourOrder = (stops: Place[], start: Coordinates | null): Place[] => {
+  const remaining = [...stops];
+  const ordered: Place[] = [];
+  let current = start;
+
+  while (remaining.length > 0) {
+    let bestIdx = 0;
+    if (current) {
+      let bestDist = Infinity;
+      remaining.forEach((stop, idx) => {
+        const dist = haversineKm(current!, stop.coordinates!);
+        if (dist < bestDist) {
+          bestDist = dist;
+          bestIdx = idx;
+        }
+      });
+    }
+    const [next] = remaining.splice(bestIdx, 1);
+    ordered.push(next);
+    current = next.coordinates!;
+  }
+
+  return ordered;
+};
+
+const twoOpt = (route: Place[], start: Coordinates | null): Place[] => {
+  let best = route;
+  let bestLength = pathLength(best, start);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let k = i + 1; k < best.length; k++) {
+        const candidate = [
+          ...best.slice(0, i),
+          ...best.slice(i, k + 1).reverse(),
+          ...best.slice(k + 1),
+        ];
+        const candidateLength = pathLength(candidate, start);
+        if (candidateLength < bestLength - 1e-9) {
+          best = candidate;
+          bestLength = candidateLength;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Orders stops to minimise walking distance. Stops without coordinates keep their order at the end.
+ */
+export const orderStops = (stops: Place[], start: Coordinates | null): Place[] => {
+  const located = stops.filter(p => hasValidCoordinates(p.coordinates));
+  const unlocated = stops.filter(p => !hasValidCoordinates(p.coordinates));
+  if (located.length < 2) return [...located, ...unlocated];
+
+  const seeded = nearestNeighbourOrder(located, start);
+  return [...twoOpt(seeded, start), ...unlocated];
+};
+
+/**
+ * Splits stops into `dayCount` geographically coherent groups by sweeping around the centroid.
+ */
+const clusterIntoDays = (stops: Place[], dayCount: number, perDay: number): Place[][] => {
+  const groups: Place[][] = Array.from({ length: dayCount }, () => []);
+  const located = stops.filter(p => hasValidCoordinates(p.coordinates));
+  const unlocated = stops.filter(p => !hasValidCoordinates(p.coordinates));
+  const center = centroid(located.map(p => p.coordinates!));
+
+  if (center) {
+    located.sort((a, b) => {
+      const angleA = Math.atan2(a.coordinates!.lat - center.lat, a.coordinates!.lng - center.lng);
+      const angleB = Math.atan2(b.coordinates!.lat - center.lat, b.coordinates!.lng - center.lng);
+      return angleA - angleB;
+    });
+  }
+
+  // Spread evenly so early days don't take everything when candidates are scarce
+  const perGroup = Math.min(perDay, Math.ceil(located.length / dayCount));
+  located.forEach((stop, idx) => {
+    groups[Math.min(dayCount - 1, Math.floor(idx / Math.max(1, perGroup)))].push(stop);
+  });
+
+  for (const stop of unlocated) {
+    const target = groups.reduce((min, g) => (g.length < min.length ? g : min), groups[0]);
+    if (target.length < perDay) target.push(stop);
+  }
+
+  return groups;
+};
+
+const pickEvening = (
+  dining: Place[],
+  used: Set<string>,
+  near: Coordinates | null,
+  count: number
+): Place[] => {
+  const available = dining.filter(p => !used.has(placeKey(p)));
+  // Only consider the better half of the ranking, then pick the closest
+  const shortlist = available.slice(0, Math.max(count, Math.ceil(available.length / 2)));
+
+  const picks: Place[] = [];
+  for (let i = 0; i < count && shortlist.length > 0; i++) {
+    let bestIdx = 0;
+    if (near) {
+      let bestDist = Infinity;
+      shortlist.forEach((p, idx) => {
+        if (!hasValidCoordinates(p.coordinates)) return;
+        const dist = haversineKm(near, p.coordinates);
+        if (dist < bestDist) {
+          bestDist = dist;
+          bestIdx = idx;
+        }
+      });
+    }
+    const [pick] = shortlist.splice(bestIdx, 1);
+    used.add(placeKey(pick));
+    picks.push(pick);
+  }
+  return picks;
+};
+
+const lastLocated = (stops: Place[]): Coordinates | null => {
+  for (let i = stops.length - 1; i >= 0; i--) {
+    if (hasValidCoordinates(stops[i].coordinates)) return stops[i].coordinates!;
+  }
+  return null;
+};
+
+const hotelStart = (discovery: DiscoveryResult): Coordinates | null => {
+  const hotel = (discovery.accommodations || []).find(h => hasValidCoordinates(h.coordinates));
+  return hotel ? hotel.coordinates! : null;
+};
+
+const buildReasoning = (
+  days: DayPlan[],
+  intent: TripIntent,
+  pace: Pace,
+  caps: SlotCaps,
+  extraLog: string[] = []
+): PlanReasoning => {
+  const stops = days.flatMap(d => [...d.morning, ...d.afternoon, ...d.evening]);
+  const totalKm = days.reduce((sum, d) => sum + pathLength([...d.morning, ...d.afternoon, ...d.evening], null), 0);
+
+  return {
+    vibeAnalysis: intent.vibes.map(vibe => ({
+      vibe,
+      matchedActivities: stops.filter(p => vibeMatches(p, [vibe]).length > 0).map(p => p.name),
+    })).filter(v => v.matchedActivities.length > 0),
+    constraintLog: [
+      `${pace} pace: up to ${caps.morning} morning, ${caps.afternoon} afternoon and ${caps.evening} evening stop(s) per day.`,
+      `Stops grouped by area and routed to ~${Math.round(totalKm)} km of point-to-point travel overall.`,
+      `${intent.budgetLevel} budget: candidate ranking weighs cost accordingly.`,
+      ...extraLog,
+    ],
+    selectedAssumptions: [
+      'Costs are midpoints of the estimated ranges.',
+      'Routing uses straight-line distances between stops.',
+    ],
+  };
+};
+
+// --- PUBLIC API ---
+
+const planLegDays = (
+  schedule: LegDay[],
+  intent: TripIntent,
+  discovery: DiscoveryResult,
+  pace: Pace,
+  currency: CurrencyInfo,
+  costWeight: number
+): DayPlan[] => {
+  const caps = PACE_SLOT_CAPS[pace];
+  const daytimePerDay = caps.morning + caps.afternoon;
+  const sightseeingDays = schedule.filter(slot => !slot.isTransfer);
+
+  const activityPool = dedupe((discovery.activities || []).filter(p => p.type !== 'Food' && p.type !== 'Hotel'));
+  const diningPool = rankCandidates(dedupe(discovery.dining || []), intent, currency, costWeight);
+
+  const selected = rankCandidates(activityPool, intent, currency, costWeight).slice(0, sightseeingDays.length * daytimePerDay);
+  const groups = sightseeingDays.length > 0 ? clusterIntoDays(selected, sightseeingDays.length, daytimePerDay) : [];
+  const start = hotelStart(discovery);
+  const usedDining = new Set<string>();
+
+  let groupIdx = 0;
+  return schedule.map(slot => {
+    const ordered = slot.isTransfer ? [] : orderStops(groups[groupIdx++] || [], start);
+    const morning = ordered.slice(0, caps.morning);
+    const afternoon = ordered.slice(caps.morning, daytimePerDay);
+    const evening = pickEvening(diningPool, usedDining, lastLocated(ordered) || start, caps.evening);
+    const anchor = ordered[0] || evening[0];
+
+    let title = anchor ? `Around ${anchor.name}` : `Free Day in ${slot.leg}`;
+    if (slot.isTransfer && slot.from) title = transferDayTitle(slot.from, slot.leg);
+
+    const day: DayPlan = {
+      day: slot.day,
+      title,
+      morning,
+      afternoon,
+      evening,
+      totalEstimatedCost: 0,
+    };
+    if (isMultiCity(intent)) {
+      day.leg = slot.leg;
+      day.isTransfer = slot.isTransfer;
+    }
+    day.totalEstimatedCost = calculateDayTotal(day, intent, currency);
+    return day;
+  });
+};
+
+const planVariant = (
+  variant: PlanVariant,
+  intent: TripIntent,
+  discovery: DiscoveryResult,
+  pace: Pace,
+  currency: CurrencyInfo
+): Itinerary => {
+  const caps = PACE_SLOT_CAPS[pace];
+  const costWeight = COST_WEIGHT[intent.budgetLevel] * variant.costBias;
+  const schedule = allocateLegDays(intent);
+
+  // Plan each leg on its own candidates so stops never cross cities
+  const days: DayPlan[] = [];
+  for (const leg of new Set(schedule.map(slot => slot.leg))) {
+    const legSchedule = schedule.filter(slot => slot.leg === leg);
+    days.push(...planLegDays(legSchedule, intent, candidatesForLeg(discovery, leg), pace, currency, costWeight));
+  }
+  // A city visited twice is planned in one pass, so restore day order
+  days.sort((a, b) => a.day - b.day);
+
+  const legLog = isMultiCity(intent)
+    ? [`Multi-city: ${schedule.filter(slot => slot.isTransfer).length} transfer day(s) keep only an evening stop in the new city.`]
+    : [];
+
+  return scheduleItinerary({
+    id: `local_${variant.key}_${Date.now()}`,
+    title: variant.title,
+    description: variant.description,
+    tags: [...variant.tags, pace],
+    totalEstimatedCost: days.reduce((sum, d) => sum + d.totalEstimatedCost, 0),
+    currency: currency.code,
+    days,
+    reasoning: buildReasoning(days, intent, pace, caps, legLog),
+  });
+};
+
+/**
+ * Builds itinerary variants from discovery candidates without calling the LLM.
+ */
+export const optimizeLocally = (
+  intent: TripIntent,
+  discovery: DiscoveryResult,
+  options: LocalOptimizerOptions = {}
+): OptimizationResult => {
+  const pace = resolvePace(intent, options.preferences);
+  const currency = resolvePrimaryCurrency(intent);
+
+  const itineraries = VARIANTS.map(variant => planVariant(variant, intent, discovery, pace, currency));
+
+  const totalStops = (discovery.activities || []).length + (discovery.dining || []).length;
+  const assumptions: string[] = [];
+  if (totalStops < intent.durationDays * 2) {
+    assumptions.push(`Only ${totalStops} candidates were available for ${intent.durationDays} days, so some slots are left free.`);
+  }
+
+  return {
+    itineraries,
+    confidenceScore: assumptions.length > 0 ? 0.6 : 0.85,
+    assumptions,
+  };
+};
+
+/**
+ * Repairs an LLM-produced itinerary: removes duplicate stops, enforces pace caps,
+ * fills empty days from unused candidates, re-routes each day and recalculates totals.
+ */
+export const repairItinerary = (
+  itinerary: Itinerary,
+  intent: TripIntent,
+  discovery: DiscoveryResult,
+  options: LocalOptimizerOptions = {}
+): Itinerary => {
+  const pace = resolvePace(intent, options.preferences);
+  const caps = PACE_SLOT_CAPS[pace];
+  const currency = resolvePrimaryCurrency(intent, itinerary.currency);
+  const costWeight = COST_WEIGHT[intent.budgetLevel];
+  const start = hotelStart(discovery);
+  const daytimePerDay = caps.morning + caps.afternoon;
+
+  const used = new Set<string>();
+  const take = (places: Place[]) => places.filter(p => {
+    const key = placeKey(p);
+    if (used.has(key)) return false;
+    used.add(key);
+    return true;
+  });
+
+  const activityPool = rankCandidates(
+    dedupe((discovery.activities || []).filter(p => p.type !== 'Food' && p.type !== 'Hotel')),
+    intent, currency, costWeight
+  );
+  const diningPool = rankCandidates(dedupe(discovery.dining || []), intent, currency, costWeight);
+
+  // First pass claims the LLM's choices so fills never duplicate them
+  const claimed = (itinerary.days || []).map(day => ({
+    day,
+    daytime: take([...(day.morning || []), ...(day.afternoon || [])]),
+    evening: take(day.evening || []),
+  }));
+
+  // Multi-city trips only fill a day from its own leg's candidates
+  const schedule = isMultiCity(intent) ? allocateLegDays(intent) : null;
+  const legPool = (leg: string | undefined, pool: Place[]) => {
+    const inLeg = leg ? pool.filter(p => p.leg === leg) : [];
+    return inLeg.length > 0 ? inLeg : pool;
+  };
+
+  let filled = 0;
+  const days: DayPlan[] = claimed.map(({ day, daytime, evening }, idx) => {
+    const slot = schedule?.[idx];
+    if (daytime.length === 0 && !slot?.isTransfer) {
+      const fill = legPool(slot?.leg, activityPool).filter(p => !used.has(placeKey(p))).slice(0, daytimePerDay);
+      fill.forEach(p => used.add(placeKey(p)));
+      daytime = fill;
+      filled += fill.length;
+    }
+
+    const ordered = orderStops(daytime, start).slice(0, daytimePerDay);
+    if (evening.length === 0) {
+      evening = pickEvening(legPool(slot?.leg, diningPool), used, lastLocated(ordered) || start, caps.evening);
+      filled += evening.length;
+    }
+
+    const repaired: DayPlan = {
+      ...day,
+      ...(slot ? { leg: slot.leg, isTransfer: slot.isTransfer } : {}),
+      morning: ordered.slice(0, caps.morning),
+      afternoon: ordered.slice(caps.morning, daytimePerDay),
+      evening: evening.slice(0, caps.evening),
+      totalEstimatedCost: 0,
+    };
+    repaired.totalEstimatedCost = calculateDayTotal(repaired, intent, currency);
+    return repaired;
+  });
+
+  const repairLog = [`Local repair: re-routed each day and recalculated totals in ${currency.code}.`];
+  if (filled > 0) repairLog.push(`Local repair: filled ${filled} empty slot(s) from unused candidates.`);
+
+  return scheduleItinerary({
+    ...itinerary,
+    currency: currency.code,
+    days,
+    totalEstimatedCost: days.reduce((sum, d) => sum + d.totalEstimatedCost, 0),
+    reasoning: itinerary.reasoning
+      ? { ...itinerary.reasoning, constraintLog: [...(itinerary.reasoning.constraintLog || []), ...repairLog] }
+      : buildReasoning(days, intent, pace, caps, repairLog),
+  });
+};
@@ -177,3 +177,12 @@ export const trackUserAction = (action: string): void => {
   metrics.increment('user_action', 1, { action });
 };
 
+
+export const trackTokenUsage = (
+  provider: string,
+  model: string,
+  usage: { promptTokens: number; completionTokens: number; totalTokens: number }
+): void => {
+  metrics.increment('llm_prompt_tokens', usage.promptTokens, { provider, model });
+  metrics.increment('llm_completion_tokens', usage.completionTokens, { provider, model });
+};
@@ -0,0 +1,307 @@
+import { DayPlan, DiscoveryResult, Itinerary, OpeningHours, Place, ScheduledStop, TimeOfDay, TripIntent, Weekday } from "../types";
+import { scheduleDay, toMinutes, visitDuration } from "./scheduler";
+import { candidatesForLeg } from "./legs";
+import { calculateDayTotal, resolvePrimaryCurrency } from "./localOptimizer";
+import { summarizeDayTravel } from "./travelEstimator";
+import { OpeningHoursPolicy } from "./config";
+
+/**
+ * Opening Hours Validator
+ *
+ * Checks every scheduled stop against the place's weekly hours and special closures
+ * on the actual trip date (from TripIntent.startDate). Stops that arrive early wait for the place to open.
+ * In 'fix' mode a violating stop is moved to another slot of the same day, swapped with a stop on
+ * another day, or replaced by an unused candidate that is open; anything left is flagged on the stop
+ * and in the plan's reasoning.
+ */
+
+export interface OpeningHoursIssue {
+  day: number;
+  date: string;
+  placeName: string;
+  reason: string;
+}
+
+// Indexed like Date.getUTCDay()
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  mon: 'Monday', tue: 'Tuesday', wed: 'Wednesday', thu: 'Thursday', fri: 'Friday', sat: 'Saturday', sun: 'Sunday',
+};
+
+const SLOTS: TimeOfDay[] = ['Morning', 'Afternoon', 'Evening'];
+const SLOT_KEYS: Record<TimeOfDay, 'morning' | 'afternoon' | 'evening'> = {
+  Morning: 'morning',
+  Afternoon: 'afternoon',
+  Evening: 'evening',
+};
+
+const LOG_PREFIX = 'Opening hours:';
+
+const placeKey = (place: Place) => place.name.trim().toLowerCase();
+
+/**
+ * Calendar date (YYYY-MM-DD) of a trip day, or null when the trip has no start date.
+ */
+export const tripDateForDay = (intent: TripIntent, day: number): string | null => {
+  if (!intent.startDate || !/^\d{4}-\d{2}-\d{2}$/.test(intent.startDate)) return null;
+  const date = new Date(`${intent.startDate}T00:00:00Z`);
+  if (isNaN(date.getTime())) return null;
+  date.setUTCDate(date.getUTCDate() + day - 1);
+  return date.toISOString().slice(0, 10);
+};
+
+const weekdayOf = (date: string): Weekday => WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+
+const hasKnownHours = (hours?: OpeningHours): hours is OpeningHours =>
+  !!hours && ((hours.closures || []).length > 0 || Object.keys(hours.weekly || {}).length > 0);
+
+/**
+ * Why the place can't be visited from `start` for `duration` minutes on `date`, or null if it can.
+ */
+export const closedReason = (place: Place, date: string, start: number, duration: number): string | null => {
+  const hours = place.openingHours;
+  if (!hasKnownHours(hours)) return null;
+
+  const closure = (hours.closures || []).find(c => c.date === date);
+  if (closure) return `closed on ${date}${closure.reason ? ` (${closure.reason})` : ''}`;
+
+  // Only closures are known; assume regular hours are unrestricted
+  if (Object.keys(hours.weekly || {}).length === 0) return null;
+
+  const weekday = weekdayOf(date);
+  const periods = hours.weekly[weekday] || [];
+  if (periods.length === 0) return `closed on ${WEEKDAY_NAMES[weekday]}s`;
+
+  const end = start + duration;
+  const fits = periods.some(period => {
+    const open = toMinutes(period.open);
+    let close = toMinutes(period.close);
+    if (close <= open) close += 24 * 60;
+    return start >= open && end <= close;
+  });
+  if (fits) return null;
+
+  const window = periods.map(p => `${p.open}–${p.close}`).join(', ');
+  return `outside opening hours on ${WEEKDAY_NAMES[weekday]} (${window})`;
+};
+
+/**
+ * Fills in opening hours the LLM dropped when copying candidates into the plan.
+ */
+const withCandidateHours = (itinerary: Itinerary, discovery: DiscoveryResult | null): Itinerary => {
+  if (!discovery) return itinerary;
+  const hoursByName = new Map<string, OpeningHours>();
+  for (const place of [...(discovery.activities || []), ...(discovery.dining || []), ...(discovery.accommodations || [])]) {
+    if (place.openingHours) hoursByName.set(placeKey(place), place.openingHours);
+  }
+  if (hoursByName.size === 0) return itinerary;
+
+  const hydrate = (places: Place[]) => places.map(p =>
+    p.openingHours || !hoursByName.has(placeKey(p)) ? p : { ...p, openingHours: hoursByName.get(placeKey(p)) }
+  );
+  return {
+    ...itinerary,
+    days: itinerary.days.map(day => ({
+      ...day,
+      morning: hydrate(day.morning || []),
+      afternoon: hydrate(day.afternoon || []),
+      evening: hydrate(day.evening || []),
+    })),
+  };
+};
+
+/**
+ * Opening time to wait for when a stop would otherwise arrive early, e.g. an evening show at 20:00.
+ */
+const waitForOpening = (date: string) => (place: Place, slot: TimeOfDay, proposedStart: number): number => {
+  const periods = place.openingHours?.weekly?.[weekdayOf(date)];
+  if (!periods || closedReason(place, date, proposedStart, visitDuration(place, slot)) === null) return proposedStart;
+
+  const duration = visitDuration(place, slot);
+  const later = periods
+    .map(period => toMinutes(period.open))
+    .filter(open => open > proposedStart && closedReason(place, date, open, duration) === null)
+    .sort((a, b) => a - b)[0];
+  return later ?? proposedStart;
+};
+
+/**
+ * The day's schedule on a given date, delaying stops that arrive before their place opens.
+ */
+const scheduleOnDate = (day: DayPlan, date: string): ScheduledStop[] => scheduleDay(day, waitForOpening(date));
+
+const dayIssues = (day: DayPlan, date: string): OpeningHoursIssue[] =>
+  scheduleOnDate(day, date).flatMap(stop => {
+    const reason = closedReason(stop.place, date, toMinutes(stop.startTime), stop.durationMinutes);
+    return reason ? [{ day: day.day, date, placeName: stop.place.name, reason }] : [];
+  });
+
+/**
+ * Lists stops scheduled while their place is closed.
+ */
+export const validateOpeningHours = (itinerary: Itinerary, intent: TripIntent): OpeningHoursIssue[] =>
+  itinerary.days.flatMap(day => {
+    const date = tripDateForDay(intent, day.day);
+    return date ? dayIssues(day, date) : [];
+  });
+
+const stopsOf = (day: DayPlan): Place[] => [...day.morning, ...day.afternoon, ...day.evening];
+
+const slotOf = (day: DayPlan, place: Place): TimeOfDay =>
+  SLOTS.find(slot => day[SLOT_KEYS[slot]].includes(place)) || 'Morning';
+
+const replaceInDay = (day: DayPlan, place: Place, replacement: Place): DayPlan => {
+  const key = SLOT_KEYS[slotOf(day, place)];
+  return { ...day, [key]: day[key].map(p => (p === place ? replacement : p)) };
+};
+
+const isSameKind = (a: Place, b: Place) => (a.type === 'Food') === (b.type === 'Food') && a.type !== 'Hotel' && b.type !== 'Hotel';
+
+interface DatedDay {
+  day: DayPlan;
+  date: string | null;
+}
+
+const issueCount = (days: DatedDay[]): number =>
+  days.reduce((sum, d) => sum + (d.date ? dayIssues(d.day, d.date).length : 0), 0);
+
+/**
+ * Tries to make one stop valid without adding violations elsewhere, in order of least disruption:
+ * another slot of the same day, a swap with a stop on another day in the same city, then an unused candidate.
+ */
+const fixStop = (
+  days: DatedDay[],
+  idx: number,
+  place: Place,
+  candidates: Place[],
+  used: Set<string>
+): { days: DatedDay[]; log: string } | null => {
+  const { day, date } = days[idx];
+  const before = issueCount(days);
+  const withDays = (changes: Record<number, DayPlan>) =>
+    days.map((d, i) => (changes[i] ? { ...d, day: changes[i] } : d));
+
+  // 1. Another slot of the same day
+  const current = slotOf(day, place);
+  for (const target of SLOTS) {
+    if (target === current) continue;
+    const key = SLOT_KEYS[target];
+    const without = {
+      ...day,
+      morning: day.morning.filter(p => p !== place),
+      afternoon: day.afternoon.filter(p => p !== place),
+      evening: day.evening.filter(p => p !== place),
+    };
+    const next = withDays({ [idx]: { ...without, [key]: [...without[key], place] } });
+    if (issueCount(next) < before) {
+      return { days: next, log: `moved ${place.name} to the ${target.toLowerCase()} of Day ${day.day}` };
+    }
+  }
+
+  // 2. Swap with a stop of the same kind on another day in the same city
+  for (let other = 0; other < days.length; other++) {
+    if (other === idx || !days[other].date || days[other].day.leg !== day.leg) continue;
+    for (const partner of stopsOf(days[other].day)) {
+      if (!isSameKind(place, partner)) continue;
+      const next = withDays({
+        [idx]: replaceInDay(day, place, partner),
+        [other]: replaceInDay(days[other].day, partner, place),
+      });
+      if (issueCount(next) < before) {
+        return { days: next, log: `swapped ${place.name} (Day ${day.day}) with ${partner.name} (Day ${days[other].day.day})` };
+      }
+    }
+  }
+
+  // 3. An unused candidate of the same kind
+  for (const candidate of candidates) {
+    if (used.has(placeKey(candidate)) || !isSameKind(place, candidate)) continue;
+    const next = withDays({ [idx]: replaceInDay(day, place, candidate) });
+    if (issueCount(next) < before) {
+      used.add(placeKey(candidate));
+      return { days: next, log: `replaced ${place.name} with ${candidate.name} on Day ${day.day}` };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Validates the plan against opening hours, auto-fixing violations when `policy` is 'fix'.
+ * Remaining violations are attached to the stops as warnings and listed in the reasoning.
+ */
+export const enforceOpeningHours = (
+  itinerary: Itinerary,
+  intent: TripIntent,
+  discovery: DiscoveryResult | null,
+  policy: OpeningHoursPolicy = 'fix'
+): Itinerary => {
+  const hydrated = withCandidateHours(itinerary, discovery);
+  if (!intent.startDate) return hydrated;
+
+  let days: DatedDay[] = hydrated.days.map(day => ({ day, date: tripDateForDay(intent, day.day) }));
+  const fixes: string[] = [];
+
+  if (policy === 'fix') {
+    const used = new Set(hydrated.days.flatMap(stopsOf).map(placeKey));
+    const candidatesFor = (day: DayPlan): Place[] => {
+      if (!discovery) return [];
+      const pool = day.leg ? candidatesForLeg(discovery, day.leg) : discovery;
+      return [...(pool.activities || []), ...(pool.dining || [])];
+    };
+
+    // Every fix removes at least one violation, so this terminates
+    for (let idx = 0; idx < days.length; idx++) {
+      let fixed: { days: DatedDay[]; log: string } | null = null;
+      do {
+        const { day, date } = days[idx];
+        if (!date) break;
+        fixed = null;
+        for (const issue of dayIssues(day, date)) {
+          const place = stopsOf(day).find(p => p.name === issue.placeName);
+          fixed = place ? fixStop(days, idx, place, candidatesFor(day), used) : null;
+          if (fixed) break;
+        }
+        if (fixed) {
+          days = fixed.days;
+          fixes.push(`${LOG_PREFIX} ${fixed.log}.`);
+        }
+      } while (fixed);
+    }
+  }
+
+  // Swaps and replacements change what each day costs
+  const currency = resolvePrimaryCurrency(intent, hydrated.currency);
+  let totalDelta = 0;
+
+  const finalDays = days.map(({ day: fixedDay, date }, idx) => {
+    const original = hydrated.days[idx];
+    let day = fixedDay;
+    if (day !== original) {
+      const total = calculateDayTotal(day, intent, currency);
+      totalDelta += total - calculateDayTotal(original, intent, currency);
+      day = { ...day, totalEstimatedCost: total, travel: summarizeDayTravel(day) };
+    }
+    if (!date) return day;
+    const schedule = scheduleOnDate(day, date).map(stop => {
+      const reason = closedReason(stop.place, date, toMinutes(stop.startTime), stop.durationMinutes);
+      return reason ? { ...stop, warning: `${stop.place.name} is ${reason}` } : stop;
+    });
+    return { ...day, schedule };
+  });
+
+  const flagged = finalDays.flatMap(day =>
+    (day.schedule || []).filter(stop => stop.warning).map(stop => `${LOG_PREFIX} Day ${day.day} ${stop.warning}.`)
+  );
+
+  const result = { ...hydrated, days: finalDays, totalEstimatedCost: Math.round(hydrated.totalEstimatedCost + totalDelta) };
+  if (!result.reasoning) return result;
+
+  // Replace the previous run's entries so re-validation never duplicates them
+  const constraintLog = (result.reasoning.constraintLog || []).filter(log => !log.startsWith(LOG_PREFIX));
+  return {
+    ...result,
+    reasoning: { ...result.reasoning, constraintLog: [...constraintLog, ...fixes, ...flagged] },
+  };
+};
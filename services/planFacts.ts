@@ -0,0 +1,115 @@
+import { DiscoveryResult, Itinerary, Place, TripIntent } from "../types";
+import { estimatePlaceCost, resolvePrimaryCurrency, spendByCategory } from "./localOptimizer";
+import { stopsForDay, endTime } from "./scheduler";
+import { travelForDay, estimateRouteBetween, formatDuration } from "./travelEstimator";
+import { getTripLegs } from "./legs";
+import { perPersonAmount, roomsNeeded } from "./costEstimator";
+
+/**
+ * Plan Facts
+ *
+ * Plain-text summary of a trip for the Q&A agent: the intent, the plan day by day with times,
+ * costs and travel, spend per category, and distances from the hotels to every stop in their
+ * city. Numbers are computed here so the model quotes them instead of doing its own arithmetic.
+ * Long trips are cut to MAX_FACTS_LENGTH so the question still fits in one request.
+ */
+
+const MAX_HOTELS = 3;
+const MAX_OTHER_CANDIDATES = 15;
+// The facts share the server's 50KB request limit with the chat history and the question
+const MAX_FACTS_LENGTH = 30000;
+
+const formatAmount = (amount: number, currency: string) => `${currency} ${Math.round(amount).toLocaleString('en-US')}`;
+
+const lengthOf = (lines: string[]) => lines.reduce((sum, line) => sum + line.length + 1, 0);
+
+const stopsOf = (itinerary: Itinerary): Place[] =>
+  itinerary.days.flatMap(day => [...day.morning, ...day.afternoon, ...day.evening]);
+
+// Hotels in the plan, or the discovered ones when the plan has none
+const hotelsFor = (itinerary: Itinerary, discovery: DiscoveryResult | null): Place[] => {
+  const planned = stopsOf(itinerary).filter(p => p.type === 'Hotel');
+  return (planned.length ? planned : discovery?.accommodations || []).slice(0, MAX_HOTELS);
+};
+
+export const describePlanFacts = (intent: TripIntent, itinerary: Itinerary, discovery: DiscoveryResult | null): string => {
+  const currency = resolvePrimaryCurrency(intent, itinerary.currency);
+  const lines: string[] = [];
+
+  // Trip
+  const { travelers } = intent;
+  lines.push(`TRIP: ${intent.destination}, ${intent.durationDays} days${intent.startDate ? ` from ${intent.startDate}` : ''}${intent.endDate ? ` to ${intent.endDate}` : ''}`);
+  const legs = getTripLegs(intent);
+  if (legs.length > 1) lines.push(`Cities: ${legs.map(l => `${l.city} (${l.nights} nights)`).join(' → ')}`);
+  lines.push(`Travelers: ${travelers.adults} adults, ${travelers.children} children, ${travelers.seniors} seniors (${roomsNeeded(travelers)} hotel room(s))`);
+  const limit = intent.budgetLimit ? `, limit ${formatAmount(intent.budgetLimit.amount, intent.budgetLimit.currency)} ${intent.budgetLimit.per === 'person' ? 'per person' : 'total'}` : '';
+  lines.push(`Budget: ${intent.budgetLevel}${limit}; vibes: ${intent.vibes.join(', ') || 'none'}; constraints: ${intent.constraints.join(', ') || 'none'}`);
+
+  // Plan
+  lines.push('', `PLAN: "${itinerary.title}" - ${itinerary.description}`);
+  lines.push(`Estimated total for the group: ${formatAmount(itinerary.totalEstimatedCost, itinerary.currency)} (${formatAmount(perPersonAmount(itinerary.totalEstimatedCost, travelers), itinerary.currency)} per person)`);
+
+  const dayLines = itinerary.days.map(day => {
+    const travel = travelForDay(day);
+    const block = ['', `Day ${day.day}: ${day.title}${day.leg ? ` (${day.leg})` : ''}${day.isTransfer ? ' [transfer day]' : ''} - day total ${formatAmount(day.totalEstimatedCost, itinerary.currency)}, ${formatDuration(travel.totalMinutes)} travel, ${travel.totalKm} km`];
+    stopsForDay(day).forEach((stop, idx) => {
+      const place = stop.place;
+      const cost = estimatePlaceCost(place, intent, currency);
+      const route = travel.segments[idx - 1]?.route;
+      const from = idx > 0 ? `; ${route ? `${route.distanceKm} km ${route.mode}` : 'travel'} ~${stop.travelMinutesFromPrevious} min from previous stop` : '';
+      block.push(`- ${stop.startTime}-${endTime(stop)} ${stop.slot}: ${place.name} (${place.type}), cost "${place.estimatedCost}", ≈ ${formatAmount(cost, currency.code)} for the group${from}${stop.warning ? `; WARNING: ${stop.warning}` : ''}`);
+    });
+    return block;
+  });
+
+  const spendLines = ['', `SPEND BY CATEGORY (midpoint estimates for the group, ${itinerary.currency}):`];
+  for (const [category, amount] of Object.entries(spendByCategory(itinerary, intent.currencyRates, travelers))) {
+    spendLines.push(`- ${category}: ${formatAmount(amount, itinerary.currency)}`);
+  }
+
+  // Each hotel is only measured against the stops of its own city
+  const distanceLines = hotelsFor(itinerary, discovery).map(hotel => {
+    const block = ['', `DISTANCES FROM HOTEL ${hotel.name}:`];
+    for (const day of itinerary.days) {
+      if (hotel.leg && day.leg && hotel.leg !== day.leg) continue;
+      for (const stop of stopsForDay(day)) {
+        if (stop.place.name === hotel.name) continue;
+        const route = estimateRouteBetween(hotel, stop.place);
+        block.push(`- Day ${day.day} ${stop.place.name}: ${route ? `${route.distanceKm} km, ~${formatDuration(route.durationMinutes)} ${route.mode}` : 'unknown (no coordinates)'}`);
+      }
+    }
+    return block;
+  });
+
+  const otherLines: string[] = [];
+  if (discovery) {
+    const planned = new Set(stopsOf(itinerary).map(p => p.name));
+    const others = [...discovery.activities, ...discovery.dining]
+      .filter(p => !planned.has(p.name))
+      .slice(0, MAX_OTHER_CANDIDATES);
+    if (others.length) {
+      otherLines.push('', 'OTHER DISCOVERED PLACES (not in the plan):');
+      others.forEach(p => otherLines.push(`- ${p.name} (${p.type}), cost "${p.estimatedCost}"`));
+    }
+  }
+
+  // Long trips are cut to the budget: the days come first, then as many distances as still fit
+  let budget = MAX_FACTS_LENGTH - lengthOf([...lines, ...spendLines, ...otherLines]);
+  const takeWithinBudget = (blocks: string[][], omitted: (count: number) => string): string[] => {
+    const all = blocks.flat();
+    const taken: string[] = [];
+    for (const line of all) {
+      if (line.length + 1 > budget) break;
+      taken.push(line);
+      budget -= line.length + 1;
+    }
+    return taken.length < all.length ? [...taken, omitted(all.length - taken.length)] : taken;
+  };
+
+  lines.push(...takeWithinBudget(dayLines, count => `(${count} more lines of the plan omitted to keep these facts short)`));
+  lines.push(...spendLines);
+  lines.push(...takeWithinBudget(distanceLines, count => `(${count} more distances omitted; use the travel times in the plan instead)`));
+  lines.push(...otherLines);
+
+  return lines.join('\n');
+};
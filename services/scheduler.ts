@@ -0,0 +1,156 @@
+import { DayPlan, Itinerary, Place, ScheduledStop, TimeOfDay } from "../types";
+import { estimateRouteBetween, summarizeDayTravel, UNKNOWN_TRAVEL_MINUTES } from "./travelEstimator";
+
+/**
+ * Day Scheduler
+ *
+ * Turns a day's morning/afternoon/evening buckets into timed stops:
+ * each stop starts at its slot's opening time or after the previous stop plus travel, whichever is later.
+ */
+
+const SLOT_START_MINUTES: Record<TimeOfDay, number> = {
+  Morning: 9 * 60,
+  Afternoon: 13 * 60 + 30,
+  Evening: 19 * 60,
+};
+
+const DEFAULT_DURATION_MINUTES: Record<Place['type'], number> = {
+  Activity: 120,
+  Landmark: 90,
+  Food: 75,
+  Hotel: 30,
+};
+
+// Dinner is usually longer than a lunch stop
+const EVENING_MEAL_MINUTES = 90;
+
+const DAY_END_MINUTES = 24 * 60;
+
+const SCHEDULE_LOG_PREFIX = 'Schedule:';
+
+export interface ScheduleIssue {
+  day: number;
+  placeName: string;
+  message: string;
+}
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const formatTime = (totalMinutes: number): string => {
+  const clamped = Math.max(0, Math.round(totalMinutes));
+  const hours = Math.floor(clamped / 60) % 24;
+  const minutes = clamped % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+export const endTime = (stop: ScheduledStop): string =>
+  formatTime(toMinutes(stop.startTime) + stop.durationMinutes);
+
+export const visitDuration = (place: Place, slot: TimeOfDay): number =>
+  place.type === 'Food' && slot === 'Evening' ? EVENING_MEAL_MINUTES : DEFAULT_DURATION_MINUTES[place.type] ?? 60;
+
+/**
+ * Travel time between consecutive stops from the offline estimator.
+ */
+export const estimateTravelMinutes = (from: Place, to: Place): number =>
+  estimateRouteBetween(from, to)?.durationMinutes ?? UNKNOWN_TRAVEL_MINUTES;
+
+// Earliest minute a stop may start, e.g. the place's opening time; defaults to the proposed start
+export type StartConstraint = (place: Place, slot: TimeOfDay, proposedStart: number) => number;
+
+/**
+ * Builds the timed schedule for a day from its buckets.
+ */
+export const scheduleDay = (day: DayPlan, notBefore?: StartConstraint): ScheduledStop[] => {
+  const slots: [TimeOfDay, Place[]][] = [
+    ['Morning', day.morning || []],
+    ['Afternoon', day.afternoon || []],
+    ['Evening', day.evening || []],
+  ];
+
+  const schedule: ScheduledStop[] = [];
+  let previous: Place | null = null;
+  let cursor = 0; // Minute the previous stop ends
+
+  for (const [slot, places] of slots) {
+    for (const place of places) {
+      const travel = previous ? estimateTravelMinutes(previous, place) : 0;
+      const earliest = Math.max(SLOT_START_MINUTES[slot], cursor + travel);
+      const start = notBefore ? Math.max(earliest, notBefore(place, slot, earliest)) : earliest;
+      const duration = visitDuration(place, slot);
+
+      schedule.push({
+        place,
+        slot,
+        startTime: formatTime(start),
+        durationMinutes: duration,
+        travelMinutesFromPrevious: travel,
+      });
+
+      previous = place;
+      cursor = start + duration;
+    }
+  }
+
+  return schedule;
+};
+
+/**
+ * Checks that stops are in order, leave room for travel and end before midnight.
+ */
+export const validateSchedule = (day: number, schedule: ScheduledStop[]): ScheduleIssue[] => {
+  const issues: ScheduleIssue[] = [];
+
+  schedule.forEach((stop, idx) => {
+    const start = toMinutes(stop.startTime);
+    const end = start + stop.durationMinutes;
+
+    if (end > DAY_END_MINUTES) {
+      issues.push({ day, placeName: stop.place.name, message: `runs past midnight (${stop.startTime}, ${stop.durationMinutes} min)` });
+    }
+
+    const prev = schedule[idx - 1];
+    if (prev) {
+      const prevEnd = toMinutes(prev.startTime) + prev.durationMinutes;
+      if (start < prevEnd + stop.travelMinutesFromPrevious) {
+        issues.push({ day, placeName: stop.place.name, message: `starts at ${stop.startTime}, before ${prev.place.name} ends and travel is done` });
+      }
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * The day's timed stops, computed on the fly for plans saved before schedules existed.
+ */
+export const stopsForDay = (day: DayPlan): ScheduledStop[] => day.schedule || scheduleDay(day);
+
+/**
+ * Recomputes every day's schedule and travel summary and logs any overlaps in the plan's reasoning.
+ */
+export const scheduleItinerary = (itinerary: Itinerary): Itinerary => {
+  const days = itinerary.days.map(day => ({ ...day, schedule: scheduleDay(day), travel: summarizeDayTravel(day) }));
+  const issues = days.flatMap(day => validateSchedule(day.day, day.schedule));
+
+  if (!itinerary.reasoning) {
+    return { ...itinerary, days };
+  }
+
+  // Replace the previous run's entries so rescheduling never duplicates them
+  const constraintLog = (itinerary.reasoning.constraintLog || []).filter(log => !log.startsWith(SCHEDULE_LOG_PREFIX));
+  return {
+    ...itinerary,
+    days,
+    reasoning: {
+      ...itinerary.reasoning,
+      constraintLog: [
+        ...constraintLog,
+        ...issues.map(issue => `${SCHEDULE_LOG_PREFIX} Day ${issue.day} ${issue.placeName} ${issue.message}.`),
+      ],
+    },
+  };
+};
@@ -0,0 +1,128 @@
+import { DayPlan, DiscoveryResult, Itinerary, Place, TimeOfDay, TripIntent } from "../types";
+import { calculateDayTotal, resolvePrimaryCurrency } from "./localOptimizer";
+import { candidatesForLeg } from "./legs";
+import { scheduleItinerary } from "./scheduler";
+import { enforceOpeningHours } from "./openingHours";
+
+/**
+ * Manual Stop Editing
+ *
+ * Moves, removes and adds stops without an LLM call. Stops are addressed by day, slot and
+ * name (names are unique within a plan). Changed days get their totals recalculated locally,
+ * and the plan total moves by the same amount, so totals the model estimated for untouched
+ * days are kept. Opening hours are only flagged: fixing them would undo the user's choice.
+ */
+
+export interface StopRef {
+  day: number;
+  slot: TimeOfDay;
+  placeName: string;
+}
+
+export interface SlotRef {
+  day: number;
+  slot: TimeOfDay;
+  index?: number; // Position in the slot; appended when left out
+}
+
+export type StopEdit =
+  | { type: 'move'; from: StopRef; to: SlotRef }
+  | { type: 'remove'; at: StopRef }
+  | { type: 'add'; place: Place; to: SlotRef };
+
+type SlotKey = 'morning' | 'afternoon' | 'evening';
+
+const SLOT_KEYS: Record<TimeOfDay, SlotKey> = {
+  Morning: 'morning',
+  Afternoon: 'afternoon',
+  Evening: 'evening',
+};
+
+const placeKey = (name: string) => name.trim().toLowerCase();
+
+const stopsOf = (day: DayPlan): Place[] => [...day.morning, ...day.afternoon, ...day.evening];
+
+const withoutStop = (days: DayPlan[], at: StopRef): { days: DayPlan[]; place: Place | null } => {
+  let removed: Place | null = null;
+  const updated = days.map(day => {
+    if (day.day !== at.day) return day;
+    const key = SLOT_KEYS[at.slot];
+    const place = day[key].find(p => placeKey(p.name) === placeKey(at.placeName));
+    if (!place) return day;
+    removed = place;
+    return { ...day, [key]: day[key].filter(p => p !== place) };
+  });
+  return { days: updated, place: removed };
+};
+
+const withStop = (days: DayPlan[], place: Place, to: SlotRef): DayPlan[] =>
+  days.map(day => {
+    if (day.day !== to.day) return day;
+    const key = SLOT_KEYS[to.slot];
+    const stops = [...day[key]];
+    stops.splice(to.index ?? stops.length, 0, place);
+    return { ...day, [key]: stops };
+  });
+
+/**
+ * The plan after the edit, with totals, schedules and travel recalculated. Returns the plan
+ * unchanged when the edit does not apply (unknown stop, or adding a place already in the plan).
+ */
+export const applyStopEdit = (
+  itinerary: Itinerary,
+  edit: StopEdit,
+  intent: TripIntent,
+  discovery: DiscoveryResult | null
+): Itinerary => {
+  let days = itinerary.days;
+
+  if (edit.type === 'add') {
+    const planned = new Set(days.flatMap(stopsOf).map(p => placeKey(p.name)));
+    if (planned.has(placeKey(edit.place.name))) return itinerary;
+    days = withStop(days, edit.place, edit.to);
+  } else {
+    const from = edit.type === 'move' ? edit.from : edit.at;
+    const removal = withoutStop(days, from);
+    if (!removal.place) return itinerary;
+    days = removal.days;
+    if (edit.type === 'move') {
+      // The index was taken with the stop still in place
+      const sameSlot = from.day === edit.to.day && from.slot === edit.to.slot;
+      const oldIndex = itinerary.days.find(d => d.day === from.day)![SLOT_KEYS[from.slot]].indexOf(removal.place);
+      const index = sameSlot && edit.to.index !== undefined && edit.to.index > oldIndex ? edit.to.index - 1 : edit.to.index;
+      days = withStop(days, removal.place, { ...edit.to, index });
+    }
+  }
+
+  const currency = resolvePrimaryCurrency(intent, itinerary.currency);
+  let totalDelta = 0;
+  days = days.map((day, idx) => {
+    const original = itinerary.days[idx];
+    if (day === original) return day;
+    const total = calculateDayTotal(day, intent, currency);
+    totalDelta += total - calculateDayTotal(original, intent, currency);
+    return { ...day, totalEstimatedCost: total };
+  });
+
+  const edited = scheduleItinerary({
+    ...itinerary,
+    days,
+    totalEstimatedCost: Math.round(itinerary.totalEstimatedCost + totalDelta),
+  });
+  return enforceOpeningHours(edited, intent, discovery, 'flag');
+};
+
+/**
+ * Discovery candidates that could be added to the day: from the day's city on multi-city
+ * trips, and not already part of the plan.
+ */
+export const candidatesForDay = (itinerary: Itinerary, day: DayPlan, discovery: DiscoveryResult | null): Place[] => {
+  if (!discovery) return [];
+  const pool = day.leg ? candidatesForLeg(discovery, day.leg) : discovery;
+  const seen = new Set(itinerary.days.flatMap(stopsOf).map(p => placeKey(p.name)));
+  return [...(pool.activities || []), ...(pool.dining || []), ...(pool.accommodations || [])].filter(place => {
+    if (seen.has(placeKey(place.name))) return false;
+    seen.add(placeKey(place.name));
+    return true;
+  });
+};
@@ -0,0 +1,97 @@
+import { Itinerary, DayPlan } from "../types";
+
+/**
+ * Incremental JSON helpers for streamed LLM output.
+ *
+ * While a response is streaming, the accumulated text is an unterminated JSON document.
+ * We cut it back to the last fully closed object/array and append the missing closers,
+ * which always yields valid JSON containing only complete values.
+ */
+
+export const parsePartialJson = (text: string): any | null => {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let safeCut = -1;
+  let safeClosers: string[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') inString = true;
+    else if (ch === '{') closers.push('}');
+    else if (ch === '[') closers.push(']');
+    else if (ch === '}' || ch === ']') {
+      closers.pop();
+      safeCut = i + 1;
+      safeClosers = [...closers];
+    }
+  }
+
+  if (closers.length === 0 && !inString) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      // Fall through to the truncated parse
+    }
+  }
+
+  if (safeCut === -1) return null;
+
+  try {
+    return JSON.parse(text.slice(0, safeCut) + safeClosers.reverse().join(''));
+  } catch {
+    return null;
+  }
+};
+
+const normalizeDay = (day: any, idx: number): DayPlan => ({
+  day: typeof day.day === 'number' ? day.day : idx + 1,
+  title: day.title || '',
+  morning: Array.isArray(day.morning) ? day.morning : [],
+  afternoon: Array.isArray(day.afternoon) ? day.afternoon : [],
+  evening: Array.isArray(day.evening) ? day.evening : [],
+  totalEstimatedCost: typeof day.totalEstimatedCost === 'number' ? day.totalEstimatedCost : 0,
+  ...(typeof day.leg === 'string' ? { leg: day.leg } : {}),
+  ...(day.isTransfer === true ? { isTransfer: true } : {}),
+});
+
+/**
+ * Extracts the itineraries whose days have fully arrived from a streaming OptimizationResult.
+ * The last day of the last itinerary may still be receiving places, so it is held back
+ * until something follows it (or the stream completes).
+ */
+export const extractPartialItineraries = (text: string, isComplete = false): Itinerary[] => {
+  const parsed = parsePartialJson(text);
+  if (!parsed || !Array.isArray(parsed.itineraries)) return [];
+
+  const raw: any[] = parsed.itineraries;
+
+  return raw
+    .map((it, itIdx) => {
+      let days: any[] = Array.isArray(it.days) ? it.days : [];
+      if (!isComplete && itIdx === raw.length - 1) {
+        days = days.slice(0, -1);
+      }
+
+      return {
+        id: it.id || `streaming_${itIdx}`,
+        title: it.title || 'Planning…',
+        description: it.description || '',
+        tags: Array.isArray(it.tags) ? it.tags : [],
+        totalEstimatedCost: typeof it.totalEstimatedCost === 'number' ? it.totalEstimatedCost : 0,
+        currency: it.currency || '',
+        days: days.map(normalizeDay),
+        // Reasoning may still be half-written mid-stream
+        reasoning: isComplete ? it.reasoning : undefined,
+      } as Itinerary;
+    })
+    .filter(it => it.days.length > 0);
+};
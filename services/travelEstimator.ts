@@ -0,0 +1,87 @@
+import { Coordinates, DayPlan, DayTravel, Place, RouteEstimate, TravelMode, TravelSegment } from "../types";
+import { haversineKm, hasValidCoordinates } from "../utils/geo";
+
+/**
+ * Offline Travel Estimator
+ *
+ * Straight-line distance stretched by a street-network factor, divided by a typical
+ * city speed for the travel mode. Used whenever no routing service is available.
+ */
+
+interface ModeProfile {
+  speedKmh: number;
+  overheadMinutes: number; // Waiting, parking, walking to the stop
+  routeFactor: number; // Street distance vs straight line
+}
+
+const MODE_PROFILES: Record<TravelMode, ModeProfile> = {
+  walk: { speedKmh: 4.5, overheadMinutes: 0, routeFactor: 1.2 },
+  transit: { speedKmh: 20, overheadMinutes: 10, routeFactor: 1.3 },
+  drive: { speedKmh: 50, overheadMinutes: 5, routeFactor: 1.3 }, // Mostly chosen for longer, out-of-town hops
+};
+
+// Automatic mode choice by straight-line distance
+const MAX_WALK_KM = 1.5;
+const MAX_TRANSIT_KM = 25;
+
+// Used for stops without coordinates
+export const UNKNOWN_TRAVEL_MINUTES = 20;
+
+export const chooseTravelMode = (km: number): TravelMode =>
+  km <= MAX_WALK_KM ? 'walk' : km <= MAX_TRANSIT_KM ? 'transit' : 'drive';
+
+/**
+ * Estimated route between two points. Picks the mode from the distance unless one is given.
+ */
+export const estimateRoute = (origin: Coordinates, destination: Coordinates, mode?: TravelMode): RouteEstimate => {
+  const straightKm = haversineKm(origin, destination);
+  const travelMode = mode || chooseTravelMode(straightKm);
+  const profile = MODE_PROFILES[travelMode];
+  const distanceKm = straightKm * profile.routeFactor;
+  const minutes = profile.overheadMinutes + (distanceKm / profile.speedKmh) * 60;
+
+  return {
+    mode: travelMode,
+    distanceKm: Math.round(distanceKm * 10) / 10,
+    // Round to 5 minutes so schedules read naturally
+    durationMinutes: Math.max(5, Math.ceil(minutes / 5) * 5),
+  };
+};
+
+/**
+ * Route between two stops, or null when either has no usable coordinates.
+ */
+export const estimateRouteBetween = (from: Place, to: Place): RouteEstimate | null =>
+  hasValidCoordinates(from.coordinates) && hasValidCoordinates(to.coordinates)
+    ? estimateRoute(from.coordinates, to.coordinates)
+    : null;
+
+/**
+ * Travel between each pair of consecutive stops of the day, in visiting order.
+ */
+export const summarizeDayTravel = (day: DayPlan): DayTravel => {
+  const stops = [...(day.morning || []), ...(day.afternoon || []), ...(day.evening || [])];
+  const segments: TravelSegment[] = stops.slice(1).map((to, idx) => ({
+    from: stops[idx].name,
+    to: to.name,
+    route: estimateRouteBetween(stops[idx], to),
+  }));
+
+  return {
+    segments,
+    totalMinutes: segments.reduce((sum, s) => sum + (s.route ? s.route.durationMinutes : UNKNOWN_TRAVEL_MINUTES), 0),
+    totalKm: Math.round(segments.reduce((sum, s) => sum + (s.route?.distanceKm || 0), 0) * 10) / 10,
+  };
+};
+
+/**
+ * The day's travel summary, computed on the fly for plans saved before it existed.
+ */
+export const travelForDay = (day: DayPlan): DayTravel => day.travel || summarizeDayTravel(day);
+
+export const formatDuration = (minutes: number): string => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+};
@@ -0,0 +1,175 @@
+import { Itinerary, Place, TimeOfDay, Trip, TripIntent } from "../types";
+
+/**
+ * Trip Version Diff
+ *
+ * Structural comparison of two saved versions of a trip: intent fields that changed,
+ * and per plan the places added, removed or moved between days/slots plus the cost delta.
+ * Plans are matched by id (or title), places by name.
+ */
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface PlaceMove {
+  place: string;
+  from: { day: number; slot: TimeOfDay };
+  to: { day: number; slot: TimeOfDay };
+}
+
+export interface DayDiff {
+  day: number;
+  added: string[];
+  removed: string[];
+  moved: PlaceMove[]; // Listed under the day the place moved to
+}
+
+export interface PlanDiff {
+  planId: string;
+  title: string;
+  currency: string;
+  costBefore: number;
+  costAfter: number;
+  costDelta: number;
+  days: DayDiff[]; // Only days with changes
+}
+
+export interface TripDiff {
+  fromVersion: number;
+  toVersion: number;
+  statusChange: FieldChange | null;
+  intentChanges: FieldChange[];
+  plansAdded: string[]; // Titles
+  plansRemoved: string[];
+  plans: PlanDiff[]; // Only plans with changes
+}
+
+const INTENT_FIELDS: (keyof TripIntent)[] = [
+  'destination', 'startDate', 'endDate', 'durationDays', 'legs', 'budgetLevel', 'travelers', 'vibes', 'constraints',
+];
+
+const SLOTS: { slot: TimeOfDay; key: 'morning' | 'afternoon' | 'evening' }[] = [
+  { slot: 'Morning', key: 'morning' },
+  { slot: 'Afternoon', key: 'afternoon' },
+  { slot: 'Evening', key: 'evening' },
+];
+
+/**
+ * Short human-readable form of an intent value for the history panel.
+ */
+const describeValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    return value.map(item => (typeof item === 'object' && item && 'city' in item ? `${item.city} (${item.nights})` : String(item))).join(', ');
+  }
+  if (typeof value === 'object') {
+    if ('adults' in value) {
+      const t = value as TripIntent['travelers'];
+      return `${t.adults} adults, ${t.children} children, ${t.seniors} seniors`;
+    }
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+const diffIntent = (before: TripIntent, after: TripIntent): FieldChange[] =>
+  INTENT_FIELDS.flatMap(field => {
+    const a = before?.[field];
+    const b = after?.[field];
+    if (JSON.stringify(a ?? null) === JSON.stringify(b ?? null)) return [];
+    return [{ field, before: describeValue(a), after: describeValue(b) }];
+  });
+
+interface Placement {
+  day: number;
+  slot: TimeOfDay;
+}
+
+const placeKey = (place: Place) => place.name.trim().toLowerCase();
+
+const placements = (plan: Itinerary): Map<string, { name: string; at: Placement }> => {
+  const result = new Map<string, { name: string; at: Placement }>();
+  for (const day of plan.days || []) {
+    for (const { slot, key } of SLOTS) {
+      for (const place of day[key] || []) {
+        // A place visited twice keeps its first placement
+        if (!result.has(placeKey(place))) result.set(placeKey(place), { name: place.name, at: { day: day.day, slot } });
+      }
+    }
+  }
+  return result;
+};
+
+export const diffPlans = (before: Itinerary, after: Itinerary): PlanDiff => {
+  const from = placements(before);
+  const to = placements(after);
+  const days = new Map<number, DayDiff>();
+  const dayDiff = (day: number) => {
+    if (!days.has(day)) days.set(day, { day, added: [], removed: [], moved: [] });
+    return days.get(day)!;
+  };
+
+  for (const [key, { name, at }] of to) {
+    const previous = from.get(key);
+    if (!previous) {
+      dayDiff(at.day).added.push(name);
+    } else if (previous.at.day !== at.day || previous.at.slot !== at.slot) {
+      dayDiff(at.day).moved.push({ place: name, from: previous.at, to: at });
+    }
+  }
+  for (const [key, { name, at }] of from) {
+    if (!to.has(key)) dayDiff(at.day).removed.push(name);
+  }
+
+  return {
+    planId: after.id,
+    title: after.title,
+    currency: after.currency,
+    costBefore: before.totalEstimatedCost,
+    costAfter: after.totalEstimatedCost,
+    costDelta: after.totalEstimatedCost - before.totalEstimatedCost,
+    days: [...days.values()].sort((a, b) => a.day - b.day),
+  };
+};
+
+export const hasPlanChanges = (diff: PlanDiff): boolean => diff.costDelta !== 0 || diff.days.length > 0;
+
+/**
+ * What changed from `before` to `after` (normally an older and a newer version of the same trip).
+ */
+export const diffTrips = (before: Trip, after: Trip): TripDiff => {
+  const beforePlans = before.optimizedPlans || [];
+  const afterPlans = after.optimizedPlans || [];
+
+  // Re-optimizing can assign new ids, so fall back to matching variants by title
+  const unmatched = new Set(beforePlans);
+  const pairs: [Itinerary, Itinerary][] = [];
+  const added: Itinerary[] = [];
+  for (const plan of afterPlans) {
+    const match = [...unmatched].find(p => p.id === plan.id) || [...unmatched].find(p => p.title === plan.title);
+    if (match) {
+      unmatched.delete(match);
+      pairs.push([match, plan]);
+    } else {
+      added.push(plan);
+    }
+  }
+
+  return {
+    fromVersion: before.version,
+    toVersion: after.version,
+    statusChange: before.status !== after.status ? { field: 'status', before: before.status, after: after.status } : null,
+    intentChanges: diffIntent(before.intent, after.intent),
+    plansAdded: added.map(plan => plan.title),
+    plansRemoved: [...unmatched].map(plan => plan.title),
+    plans: pairs.map(([a, b]) => diffPlans(a, b)).filter(hasPlanChanges),
+  };
+};
+
+export const isEmptyDiff = (diff: TripDiff): boolean =>
+  !diff.statusChange && diff.intentChanges.length === 0 && diff.plansAdded.length === 0
+  && diff.plansRemoved.length === 0 && diff.plans.length === 0;
@@ -30,6 +30,16 @@ export interface CurrencyInfo {
   code: string;
   symbol: string;
   rateToUSD: number; // 1 USD = x Local
+  rateSource?: 'table' | 'model'; // Bundled exchange-rate table, or the intent model's estimate
+  rateAsOf?: string; // YYYY-MM-DD of the table rate
+}
+
+// A rate the intent model gave that is far off the exchange-rate table (the table rate is used)
+export interface RateDeviation {
+  code: string;
+  modelRate: number;
+  tableRate: number;
+  deviation: number; // Relative difference, e.g. 0.25 for 25%
 }
 
 export interface UserPreferences {
@@ -37,6 +47,7 @@ export interface UserPreferences {
   budgetTier: 'Budget' | 'Moderate' | 'Luxury';
   accessibility: string[];
   dietaryRestrictions: string[];
+  homeCurrency?: string; // ISO code plans can be shown in, e.g. "USD"
 }
 
 export interface UserProfile {
@@ -47,17 +58,61 @@ export interface UserProfile {
   tripHistory: string[]; // IDs of past trips
 }
 
+export interface TripLeg {
+  city: string;
+  nights: number;
+  arrivalDate: string | null;
+  departureDate: string | null;
+}
+
+// A hard spending limit the traveler stated ("under $3000 total", "€400 each")
+export interface BudgetLimit {
+  amount: number;
+  currency: string; // ISO code
+  per: 'trip' | 'person';
+}
+
 export interface TripIntent extends AgentResponseMetadata {
   destination: string;
   startDate: string | null;
   endDate: string | null;
   durationDays: number;
+  legs: TripLeg[]; // Ordered stops; single-destination trips have one leg
   budgetLevel: 'Budget' | 'Moderate' | 'Luxury';
+  budgetLimit?: BudgetLimit; // Only when the traveler named an amount
   travelers: Travelers;
   vibes: string[];
   constraints: string[];
   // Map of Currency Code -> Info (e.g. { "JPY": { ...rate: 150 } })
   currencyRates: Record<string, CurrencyInfo>; 
+  rateDeviations?: RateDeviation[]; // Set when the model's rates disagreed with the table
+}
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface OpeningPeriod {
+  open: string; // Local time, "HH:MM"
+  close: string; // "HH:MM"; a close at or before open runs past midnight
+}
+
+export interface SpecialClosure {
+  date: string; // YYYY-MM-DD
+  reason?: string;
+}
+
+export interface OpeningHours {
+  weekly: Partial<Record<Weekday, OpeningPeriod[]>>; // Days without periods are closed
+  closures?: SpecialClosure[];
+}
+
+// What a cost range is charged for
+export type CostUnit = 'per-person' | 'per-night' | 'per-group';
+
+export interface PlaceCost {
+  min: number;
+  max: number;
+  currency: string; // ISO code
+  unit: CostUnit;
 }
 
 export interface Place {
@@ -65,12 +120,15 @@ export interface Place {
   description: string;
   type: 'Activity' | 'Food' | 'Hotel' | 'Landmark';
   coordinates?: Coordinates;
-  estimatedCost: string;
+  estimatedCost: string; // Display form of `cost`; the only cost on places from older plans and adapters
+  cost?: PlaceCost; // Numeric estimate that totals are computed from
   currencyCode?: string; // The specific currency for this place
   bookingUrl?: string;
   imageUrl?: string;
   rating?: number;
   address?: string;
+  leg?: string; // City of the trip leg this candidate was discovered for
+  openingHours?: OpeningHours; // Unknown hours are treated as always open
 }
 
 export interface Flight {
@@ -92,6 +150,37 @@ export interface DiscoveryResult extends AgentResponseMetadata {
   flights?: Flight[];
 }
 
+export type TimeOfDay = 'Morning' | 'Afternoon' | 'Evening';
+
+export type TravelMode = 'walk' | 'transit' | 'drive';
+
+export interface RouteEstimate {
+  mode: TravelMode;
+  distanceKm: number;
+  durationMinutes: number;
+}
+
+export interface TravelSegment {
+  from: string; // Place names
+  to: string;
+  route: RouteEstimate | null; // null when either stop has no coordinates
+}
+
+export interface DayTravel {
+  segments: TravelSegment[]; // One per pair of consecutive stops
+  totalMinutes: number; // Unknown segments count with a default duration
+  totalKm: number;
+}
+
+export interface ScheduledStop {
+  place: Place;
+  slot: TimeOfDay; // Bucket the stop was planned in
+  startTime: string; // Local time, "HH:MM"
+  durationMinutes: number;
+  travelMinutesFromPrevious: number; // 0 for the first stop of the day
+  warning?: string; // e.g. scheduled while the place is closed
+}
+
 export interface DayPlan {
   day: number;
   title: string;
@@ -99,6 +188,10 @@ export interface DayPlan {
   afternoon: Place[];
   evening: Place[];
   totalEstimatedCost: number;
+  leg?: string; // City this day is spent in
+  isTransfer?: boolean; // Travel day arriving in `leg` from the previous city
+  schedule?: ScheduledStop[]; // Timed stops derived from the buckets above
+  travel?: DayTravel; // Distances and travel times between consecutive stops
 }
 
 export interface PlanReasoning {
@@ -118,10 +211,26 @@ export interface Itinerary {
   reasoning?: PlanReasoning;
 }
 
+// Undo/redo snapshots of one plan (see services/editHistory.ts)
+export interface ItineraryHistory {
+  past: Itinerary[]; // Oldest first
+  future: Itinerary[]; // Undone plans, next redo first
+}
+
+export type EditHistory = Record<string, ItineraryHistory>; // By id of the plan shown
+
 export interface OptimizationResult extends AgentResponseMetadata {
   itineraries: Itinerary[];
 }
 
+// What a follow-up chat message asks for once plans are shown
+export type ChatRoute = 'new_trip' | 'refine' | 'question';
+
+export interface RoutedChatMessage {
+  route: ChatRoute;
+  instruction: string; // Standalone edit instruction for 'refine', empty otherwise
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
@@ -143,4 +252,70 @@ export interface Trip {
   discovery: DiscoveryResult | null;
   optimizedPlans: Itinerary[];
   selectedPlanId?: string;
+  editHistory?: EditHistory;
+}
+
+// Listing view of a saved trip (GET /api/trips)
+export interface TripSummary {
+  id: string;
+  userId: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  status: Trip['status'];
+  destination: string;
+  startDate: string | null;
+  endDate: string | null;
+  durationDays: number;
+  planTitles: string[];
+  totalEstimatedCost: number | null; // Of the selected plan (or the first one)
+  currency: string | null;
+}
+
+// Read-only link to one plan of a saved trip
+export interface TripShare {
+  token: string;
+  planId: string | null;
+  createdAt: string;
+}
+
+// What a share link shows (GET /api/shared/:token); nothing about the owner
+export interface SharedTrip {
+  tripId: string;
+  version: number;
+  updatedAt: string;
+  status: Trip['status'];
+  destination: string;
+  startDate: string | null;
+  endDate: string | null;
+  durationDays: number;
+  travelers: TripIntent['travelers'] | null;
+  itinerary: Itinerary | null;
+}
+
+// --- Collaboration ---
+
+// A whole plan (variant), or one place in it when `place` is set
+export interface FeedbackTarget {
+  planId: string;
+  place: string | null;
+}
+
+export interface TripComment extends FeedbackTarget {
+  id: string;
+  userId: string;
+  userName: string;
+  text: string;
+  createdAt: string;
+}
+
+export interface TripVote extends FeedbackTarget {
+  userId: string;
+  userName: string;
+  value: 1 | -1;
+}
+
+export interface TripFeedback {
+  comments: TripComment[];
+  votes: TripVote[];
 }
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { Coordinates } from '../types';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in kilometres.
+ */
+export const haversineKm = (a: Coordinates, b: Coordinates): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * The AI sometimes returns { lat: 0, lng: 0 } instead of omitting coordinates.
+ */
+export const hasValidCoordinates = (coords?: Coordinates): coords is Coordinates => {
+  return !!coords
+    && Number.isFinite(coords.lat)
+    && Number.isFinite(coords.lng)
+    && !(coords.lat === 0 && coords.lng === 0);
+};
+
+/**
+ * Simple arithmetic centroid. Good enough at city scale.
+ */
+export const centroid = (points: Coordinates[]): Coordinates | null => {
+  if (points.length === 0) return null;
+  const sum = points.reduce((acc, p) => ({ lat: acc.lat + p.lat, lng: acc.lng + p.lng }), { lat: 0, lng: 0 });
+  return { lat: sum.lat / points.length, lng: sum.lng / points.length };
+};
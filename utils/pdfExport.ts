@@ -1,7 +1,15 @@
 import jsPDF from 'jspdf';
-import { Itinerary } from '../types';
+import { Itinerary, TripIntent } from '../types';
+import { stopsForDay, endTime } from '../services/scheduler';
+import { travelForDay, formatDuration } from '../services/travelEstimator';
+import { spendByCategory } from '../services/localOptimizer';
+import { countTravelers, perPersonAmount } from '../services/costEstimator';
+
+// `intent` supplies exchange rates for places priced in another currency and the travelers the costs are for
+export const exportItineraryToPDF = (itinerary: Itinerary, intent?: TripIntent | null) => {
+  const travelers = intent?.travelers;
+  const formatTotal = (amount: number) => `${itinerary.currency} ${Math.round(amount).toLocaleString()}`;
 
-export const exportItineraryToPDF = (itinerary: Itinerary) => {
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.getWidth();
   const pageHeight = doc.internal.pageSize.getHeight();
@@ -85,6 +93,13 @@ export const exportItineraryToPDF = (itinerary: Itinerary) => {
   doc.setFont('helvetica', 'normal');
   doc.text(itinerary.tags.slice(0, 2).join(', '), col2 + 20, yPosition + 12);
 
+  if (travelers) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('Per person:', col2, yPosition + 22);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${formatTotal(perPersonAmount(itinerary.totalEstimatedCost, travelers))} (${countTravelers(travelers)} travelers)`, col2 + 25, yPosition + 22);
+  }
+
   yPosition += 45;
 
   // ===== DAILY ITINERARY =====
@@ -105,15 +120,23 @@ export const exportItineraryToPDF = (itinerary: Itinerary) => {
     doc.setFontSize(14);
     doc.setFont('helvetica', 'bold');
     doc.text(`Day ${day.day}: ${day.title}`, margin + 5, yPosition + 8);
+
+    const travel = travelForDay(day);
+    if (travel.segments.length > 0) {
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'normal');
+      doc.text(`${formatDuration(travel.totalMinutes)} travel`, pageWidth - margin - 5, yPosition + 8, { align: 'right' });
+    }
     
     yPosition += 18;
 
     // Activities
-    const allActivities = [
-      ...day.morning.map(p => ({ ...p, time: 'Morning' })),
-      ...day.afternoon.map(p => ({ ...p, time: 'Afternoon' })),
-      ...day.evening.map(p => ({ ...p, time: 'Evening' }))
-    ];
+    const allActivities = stopsForDay(day).map(stop => ({
+      ...stop.place,
+      time: `${stop.startTime}-${endTime(stop)}`,
+      travel: stop.travelMinutesFromPrevious,
+      warning: stop.warning
+    }));
 
     allActivities.forEach((place, idx) => {
       checkPageBreak(35);
@@ -126,6 +149,12 @@ export const exportItineraryToPDF = (itinerary: Itinerary) => {
       // Time badge
       doc.setFillColor(219, 234, 254);
       doc.roundedRect(margin + 8, yPosition + 3, 25, 6, 1, 1, 'F');
+      if (place.travel > 0) {
+        doc.setFontSize(8);
+        doc.setTextColor(107, 114, 128);
+        doc.setFont('helvetica', 'normal');
+        doc.text(`~${place.travel} min travel from previous stop`, margin + 36, yPosition + 7);
+      }
       doc.setFontSize(8);
       doc.setTextColor(30, 64, 175);
       doc.setFont('helvetica', 'bold');
@@ -151,6 +180,15 @@ export const exportItineraryToPDF = (itinerary: Itinerary) => {
       addWrappedText(descText, margin + 8, yPosition + 20, contentWidth - 20, 9);
 
       yPosition += 35;
+
+      if (place.warning) {
+        checkPageBreak(8);
+        doc.setFontSize(8);
+        doc.setTextColor(180, 83, 9); // Amber
+        doc.setFont('helvetica', 'italic');
+        doc.text(`Opening hours: ${place.warning}`, margin + 8, yPosition - 2);
+        yPosition += 5;
+      }
     });
 
     yPosition += 5;
@@ -172,15 +210,7 @@ export const exportItineraryToPDF = (itinerary: Itinerary) => {
   yPosition += 10;
 
   // Calculate category totals
-  const categoryTotals: { [key: string]: number } = {};
-  itinerary.days.forEach(day => {
-    [...day.morning, ...day.afternoon, ...day.evening].forEach(place => {
-      // Extract numeric value from estimatedCost, handling various currency formats
-      const costMatch = place.estimatedCost.match(/[\d.,]+/);
-      const cost = costMatch ? parseFloat(costMatch[0].replace(/,/g, '')) : 0;
-      categoryTotals[place.type] = (categoryTotals[place.type] || 0) + cost;
-    });
-  });
+  const categoryTotals = spendByCategory(itinerary, intent?.currencyRates, travelers);
 
   // Budget table header
   doc.setFillColor(37, 99, 235);
@@ -204,7 +234,7 @@ export const exportItineraryToPDF = (itinerary: Itinerary) => {
     doc.setFont('helvetica', 'normal');
     doc.text(category, margin + 5, yPosition + 6);
     doc.setFont('helvetica', 'bold');
-    doc.text(`${itinerary.currency} ${total.toFixed(2)}`, pageWidth - margin - 40, yPosition + 6);
+    doc.text(formatTotal(total), pageWidth - margin - 40, yPosition + 6);
 
     yPosition += 8;
     rowColor = !rowColor;
@@ -217,7 +247,17 @@ export const exportItineraryToPDF = (itinerary: Itinerary) => {
   doc.setFont('helvetica', 'bold');
   doc.text('TOTAL ESTIMATED COST', margin + 5, yPosition + 7);
   doc.text(`${itinerary.currency} ${itinerary.totalEstimatedCost.toLocaleString()}`, pageWidth - margin - 40, yPosition + 7);
-  yPosition += 15;
+  yPosition += 10;
+
+  if (travelers) {
+    doc.setFillColor(220, 252, 231);
+    doc.rect(margin, yPosition, contentWidth, 8, 'F');
+    doc.setTextColor(22, 101, 52);
+    doc.text(`PER PERSON (${countTravelers(travelers)} travelers)`, margin + 5, yPosition + 6);
+    doc.text(formatTotal(perPersonAmount(itinerary.totalEstimatedCost, travelers)), pageWidth - margin - 40, yPosition + 6);
+    yPosition += 8;
+  }
+  yPosition += 5;
 
   // Budget note
   doc.setFillColor(254, 243, 199);
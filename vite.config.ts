@@ -18,6 +18,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
 	      define: {
 	        'process.env.GOOGLE_MAPS_API_KEY': JSON.stringify(env.GOOGLE_MAPS_API_KEY || ''),
+	        // Non-secret settings read by ConfigService in the browser
+	        'window.__ENV__': JSON.stringify(
+	          Object.fromEntries(
+	            Object.entries(env).filter(([key]) => key === 'OPTIMIZER_MODE' || key === 'OPENING_HOURS_POLICY' || key.startsWith('LLM_MODEL') || key === 'LLM_PROVIDER')
+	          )
+	        ),
 	      },
       resolve: {
         alias: {